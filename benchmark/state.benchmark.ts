@@ -0,0 +1,102 @@
+import {JSObject} from 'javascriptutilities';
+import {State} from './../src';
+
+let separator = '.';
+
+/**
+ * Create a key-value object with count ** levels leaves, e.g. a0.b0.c0.
+ * @param {number} levels The number of substate levels.
+ * @param {number} count The number of keys per level.
+ * @returns {JSObject<number>} A JSObject instance.
+ */
+function createKeyValues(levels: number, count: number): JSObject<number> {
+  let paths = [''];
+
+  for (let i = 0; i < levels; i++) {
+    let letter = String.fromCharCode(97 + i);
+    let nextPaths: string[] = [];
+
+    for (let path of paths) {
+      for (let j = 0; j < count; j++) {
+        let prefix = path.length > 0 ? path + separator : '';
+        nextPaths.push(`${prefix}${letter}${j}`);
+      }
+    }
+
+    paths = nextPaths;
+  }
+
+  return paths
+    .map((v, i) => ({[v]: i}))
+    .reduce((acc, v) => Object.assign(acc, v), {});
+}
+
+/**
+ * Run some function a number of times and report the average duration.
+ * @param {string} name The name of the benchmark.
+ * @param {number} times The number of iterations.
+ * @param {(i: number) => void} fn The function to benchmark.
+ */
+function measure(name: string, times: number, fn: (i: number) => void): void {
+  let start = Date.now();
+
+  for (let i = 0; i < times; i++) {
+    fn(i);
+  }
+
+  let total = Date.now() - start;
+  let average = (total / times).toFixed(4);
+  console.log(`${name}: ${total}ms total, ${average}ms/op (${times} ops)`);
+}
+
+let depth = 4;
+let width = 10;
+let keyValues = createKeyValues(depth, width);
+let keys = Object.keys(keyValues);
+let wideKeyValues = createKeyValues(1, 5000);
+let wideKeys = Object.keys(wideKeyValues);
+let state = State.empty<number>();
+let wideState = State.empty<number>();
+
+console.log(`Deep state: ${keys.length} leaves, ${depth} levels`);
+console.log(`Wide state: ${wideKeys.length} leaves, 1 level`);
+
+measure('updatingKeyValues (deep)', 1, () => {
+  state = State.empty<number>().updatingKeyValues(keyValues);
+});
+
+measure('updatingKeyValues (wide)', 1, () => {
+  wideState = State.empty<number>().updatingKeyValues(wideKeyValues);
+});
+
+measure('valueAtNode (deep)', 1000, i => {
+  state.valueAtNode(keys[i % keys.length]);
+});
+
+measure('valueAtNode (wide)', 1000, i => {
+  wideState.valueAtNode(wideKeys[i % wideKeys.length]);
+});
+
+measure('updatingValue (deep)', 1000, i => {
+  state.updatingValue(keys[i % keys.length], i);
+});
+
+measure('updatingValue (wide)', 1000, i => {
+  wideState.updatingValue(wideKeys[i % wideKeys.length], i);
+});
+
+measure('removingValue (wide)', 10, i => {
+  wideState.removingValue(wideKeys[i % wideKeys.length]);
+});
+
+measure('updatingSubstate (deep)', 1000, i => {
+  state.updatingSubstate(keys[i % keys.length], State.empty<number>());
+});
+
+measure('hashCode after updatingValue (deep)', 1000, i => {
+  state.updatingValue(keys[i % keys.length], i).hashCode();
+});
+
+measure('equals after updatingValue (deep)', 1000, i => {
+  state.equals(state.updatingValue(keys[i % keys.length], -1));
+});
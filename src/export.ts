@@ -1,11 +1,43 @@
 import './state+access';
+import './state+array';
 import './state+clone';
+import './state+diff';
 import './state+equal';
 import './state+inspect';
+import './state+iterate';
 import './state+map';
+import './state+merge';
 import './state+modify';
+import './state+patch';
+import './state+query';
+import './state+transform';
+import * as Path from './state+path';
 
-export {Type, substateKey, valuesKey} from './state+main';
+export {Path};
+
+export {
+  AsyncMapFn,
+  AsyncMapOptions,
+  AsyncUpdateFn,
+  Change,
+  EqualityOptions,
+  Merge3Conflict,
+  Merge3Result,
+  MergeConflict,
+  MergeOptions,
+  MergeResult,
+  MergeStrategy,
+  PatchOperation,
+  PathPredicate,
+  SubstateChange,
+  TraversalOptions,
+  TraversalOrder,
+  Type,
+  ValueChange,
+  ValueComparator,
+  substateKey,
+  valuesKey,
+} from './state+main';
 
 export {
   builder,
@@ -14,3 +46,69 @@ export {
   fromState,
   separateSubstateAndValuePaths,
 } from './state+utility';
+
+export {deepEquals} from './state+equal';
+export {History, HistoryOptions, history} from './state+history';
+export {merge3} from './state+merge';
+export {
+  Migration,
+  MigrationResult,
+  Migrations,
+  migrations,
+} from './state+migration';
+
+export {KeyPath} from './state+path';
+
+export {
+  FileSystem,
+  MemoryStorage,
+  PersistOptions,
+  Persistor,
+  StorageAdapter,
+  WebStorage,
+  fileSystemAdapter,
+  persist,
+  webStorageAdapter,
+} from './state+persist';
+export {createPatch} from './state+patch';
+export {Reducer, combineReducers} from './state+reducer';
+
+export {
+  NodeSchema,
+  Schema,
+  SchemaOptions,
+  TypeName,
+  ValueSchema,
+  ValueSchemas,
+  Violation,
+  schema,
+} from './state+schema';
+
+export {
+  Selector,
+  SelectorInput,
+  SelectorOptions,
+  createSelector,
+} from './state+selector';
+
+export {
+  DeserializeOptions,
+  Reviver,
+  SerializeOptions,
+  deserialize,
+  formatVersion,
+  serialize,
+} from './state+serialize';
+
+export {PathChange, Store, StoreListener, store} from './state+store';
+
+export {
+  KeyOf,
+  Leaf,
+  LeafKeyOf,
+  NodeKeyOf,
+  Typed,
+  TypedMethod,
+  ValueOf,
+  typed,
+} from './state+typed';
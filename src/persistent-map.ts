@@ -0,0 +1,396 @@
+import {JSObject, Objects, Undefined} from 'javascriptutilities';
+
+/// Each branch level consumes 5 bits of the key hash, so that every branch
+/// holds at most 32 children. 7 levels are enough to cover 32-bit hashes.
+let branchWidth = 32;
+let hashModulus = 4294967291;
+
+interface Entry<V> {
+  readonly key: string;
+  readonly value: V;
+  readonly order: number;
+  readonly hash: number;
+}
+
+/**
+ * Hash some value that is stored in a map.
+ * @template V Generics parameter.
+ */
+export type ValueHasher<V> = (value: V) => number;
+
+/**
+ * Holds all entries whose keys share the same hash.
+ * @template V Generics parameter.
+ */
+class Leaf<V> {
+  public constructor(
+    public readonly hash: number,
+    public readonly entries: Entry<V>[]
+  ) {}
+}
+
+/**
+ * Holds up to 32 children, indexed by a 5-bit chunk of the key hash.
+ * @template V Generics parameter.
+ */
+class Branch<V> {
+  public constructor(public readonly children: Undefined<Node<V>>[]) {}
+}
+
+type Node<V> = Leaf<V> | Branch<V>;
+
+/**
+ * Hash a key to a non-negative integer below 2^32.
+ * @param {string} key A string value.
+ * @returns {number} A number value.
+ */
+function hashKey(key: string): number {
+  let hash = 0;
+
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) % hashModulus;
+  }
+
+  return hash;
+}
+
+/**
+ * Identity hashes of objects, so that values that are the same instance hash
+ * the same way without being traversed.
+ */
+let objectHashes = new WeakMap<object, number>();
+let nextObjectHash = 1;
+
+/**
+ * Hash a value consistently with strict equality: primitives are hashed by
+ * value, and objects by identity.
+ * @param {*} value Any value.
+ * @returns {number} A number value.
+ */
+export function hashValue(value: any): number {
+  if (
+    (typeof value === 'object' && value !== null) ||
+    typeof value === 'function'
+  ) {
+    let hash = objectHashes.get(value);
+
+    if (hash === undefined) {
+      hash = hashKey(`object:${nextObjectHash++}`);
+      objectHashes.set(value, hash);
+    }
+
+    return hash;
+  } else {
+    return hashKey(`${typeof value}:${String(value)}`);
+  }
+}
+
+/**
+ * Hash a key-value pair. Entry hashes are summed up, so that maps with the
+ * same entries have the same hash regardless of their insertion order.
+ * @param {string} key A string value.
+ * @param {number} valueHash The hash of the value.
+ * @returns {number} A number value.
+ */
+export function hashEntry(key: string, valueHash: number): number {
+  return (hashKey(key) * 31 + valueHash) % hashModulus;
+}
+
+/**
+ * Hash a map entry. Entries without a value are left out, since states treat
+ * them as missing.
+ * @template V Generics parameter.
+ * @param {string} key A string value.
+ * @param {V} value V object.
+ * @param {ValueHasher<V>} hasher The function that hashes the value.
+ * @returns {number} A number value.
+ */
+function hashContent<V>(key: string, value: V, hasher: ValueHasher<V>): number {
+  return value !== undefined && value !== null
+    ? hashEntry(key, hasher(value))
+    : 0;
+}
+
+/**
+ * Add or remove an entry hash from the hash of a map.
+ * @param {number} hash The hash of the map.
+ * @param {number} entryHash The hash of the entry.
+ * @param {number} sign 1 to add the entry, -1 to remove it.
+ * @returns {number} A number value.
+ */
+export function combineHash(
+  hash: number,
+  entryHash: number,
+  sign: number
+): number {
+  return (
+    (((hash + sign * entryHash) % hashModulus) + hashModulus) % hashModulus
+  );
+}
+
+/**
+ * Get the child index for some hash at a branch level.
+ * @param {number} hash A number value.
+ * @param {number} level A number value.
+ * @returns {number} A number value.
+ */
+function indexAt(hash: number, level: number): number {
+  return Math.floor(hash / Math.pow(branchWidth, level)) % branchWidth;
+}
+
+function getIn<V>(
+  node: Undefined<Node<V>>,
+  level: number,
+  hash: number,
+  key: string
+): Undefined<Entry<V>> {
+  if (node instanceof Leaf) {
+    return node.hash === hash
+      ? node.entries.filter(v => v.key === key)[0]
+      : undefined;
+  } else if (node instanceof Branch) {
+    return getIn(node.children[indexAt(hash, level)], level + 1, hash, key);
+  } else {
+    return undefined;
+  }
+}
+
+function setIn<V>(
+  node: Undefined<Node<V>>,
+  level: number,
+  hash: number,
+  entry: Entry<V>
+): Node<V> {
+  if (node instanceof Leaf) {
+    if (node.hash === hash) {
+      let entries = node.entries.filter(v => v.key !== entry.key);
+      return new Leaf(hash, entries.concat([entry]));
+    } else {
+      /// Two different hashes always differ at some level, so splitting the
+      /// leaf into a branch eventually separates them.
+      let children: Undefined<Node<V>>[] = new Array(branchWidth);
+      children[indexAt(node.hash, level)] = node;
+      return setIn(new Branch(children), level, hash, entry);
+    }
+  } else if (node instanceof Branch) {
+    let index = indexAt(hash, level);
+    let children = node.children.slice();
+    children[index] = setIn(children[index], level + 1, hash, entry);
+    return new Branch(children);
+  } else {
+    return new Leaf(hash, [entry]);
+  }
+}
+
+function removeIn<V>(
+  node: Undefined<Node<V>>,
+  level: number,
+  hash: number,
+  key: string
+): Undefined<Node<V>> {
+  if (node instanceof Leaf) {
+    let entries = node.entries.filter(v => v.key !== key);
+    return entries.length > 0 ? new Leaf(hash, entries) : undefined;
+  } else if (node instanceof Branch) {
+    let index = indexAt(hash, level);
+    let children = node.children.slice();
+    children[index] = removeIn(children[index], level + 1, hash, key);
+
+    return children.some(v => v !== undefined)
+      ? new Branch(children)
+      : undefined;
+  } else {
+    return undefined;
+  }
+}
+
+function collectIn<V>(node: Undefined<Node<V>>, entries: Entry<V>[]): void {
+  if (node instanceof Leaf) {
+    entries.push(...node.entries);
+  } else if (node instanceof Branch) {
+    node.children.forEach(v => collectIn(v, entries));
+  }
+}
+
+/**
+ * Immutable key-value map backed by a hash trie. Updates only copy the trie
+ * nodes on the path to the modified key, so they cost O(log n) instead of
+ * O(n) for a plain object copy. Iteration follows insertion order, like a
+ * plain object with string keys.
+ * @template V Generics parameter.
+ */
+export class PersistentMap<V> {
+  /**
+   * Get an empty map.
+   * @template V Generics parameter.
+   * @param {ValueHasher<V>} [hasher] The function that hashes values for the
+   * content hash, hashValue by default.
+   * @returns {PersistentMap<V>} A PersistentMap instance.
+   */
+  public static empty<V>(hasher: ValueHasher<V> = hashValue): PersistentMap<V> {
+    return new PersistentMap<V>(undefined, 0, 0, 0, hasher);
+  }
+
+  /**
+   * Build a map from a key-value object.
+   * @template V Generics parameter.
+   * @param {JSObject<V>} object A JSObject instance.
+   * @param {ValueHasher<V>} [hasher] The function that hashes values for the
+   * content hash, hashValue by default.
+   * @returns {PersistentMap<V>} A PersistentMap instance.
+   */
+  public static fromObject<V>(
+    object: JSObject<V>,
+    hasher: ValueHasher<V> = hashValue
+  ): PersistentMap<V> {
+    return Objects.entries(object).reduce(
+      (acc, v) => acc.set(v[0], v[1] as V),
+      PersistentMap.empty<V>(hasher)
+    );
+  }
+
+  private constructor(
+    private readonly root: Undefined<Node<V>>,
+    public readonly size: number,
+    private readonly nextOrder: number,
+    /**
+     * The hash of all entries with a value, which is updated with every
+     * change. Each entry keeps the hash its value had when it was set, so
+     * that it can be taken out again even if the value changed since.
+     */
+    public readonly contentHash: number,
+    private readonly hasher: ValueHasher<V>
+  ) {}
+
+  /**
+   * Get the value for some key.
+   * @param {string} key A string value.
+   * @returns {Undefined<V>} V object.
+   */
+  public get(key: string): Undefined<V> {
+    let entry = getIn(this.root, 0, hashKey(key), key);
+    return entry !== undefined ? entry.value : undefined;
+  }
+
+  /**
+   * Check if there is an entry for some key.
+   * @param {string} key A string value.
+   * @returns {boolean} A boolean value.
+   */
+  public has(key: string): boolean {
+    return getIn(this.root, 0, hashKey(key), key) !== undefined;
+  }
+
+  /**
+   * Get a new map with some value at a key. An existing key keeps its
+   * position in the iteration order.
+   * @param {string} key A string value.
+   * @param {V} value V object.
+   * @returns {PersistentMap<V>} A PersistentMap instance.
+   */
+  public set(key: string, value: V): PersistentMap<V> {
+    let hash = hashKey(key);
+    let existing = getIn(this.root, 0, hash, key);
+    let added = hashContent(key, value, this.hasher);
+
+    if (existing !== undefined) {
+      let entry = {key, value, order: existing.order, hash: added};
+      let root = setIn(this.root, 0, hash, entry);
+      let contentHash = combineHash(this.contentHash, existing.hash, -1);
+      contentHash = combineHash(contentHash, added, 1);
+
+      return new PersistentMap(
+        root,
+        this.size,
+        this.nextOrder,
+        contentHash,
+        this.hasher
+      );
+    } else {
+      let entry = {key, value, order: this.nextOrder, hash: added};
+      let root = setIn(this.root, 0, hash, entry);
+      let contentHash = combineHash(this.contentHash, added, 1);
+
+      return new PersistentMap(
+        root,
+        this.size + 1,
+        this.nextOrder + 1,
+        contentHash,
+        this.hasher
+      );
+    }
+  }
+
+  /**
+   * Get a new map without the entry for some key.
+   * @param {string} key A string value.
+   * @returns {PersistentMap<V>} A PersistentMap instance.
+   */
+  public remove(key: string): PersistentMap<V> {
+    let hash = hashKey(key);
+    let existing = getIn(this.root, 0, hash, key);
+
+    if (existing !== undefined) {
+      let root = removeIn(this.root, 0, hash, key);
+      let contentHash = combineHash(this.contentHash, existing.hash, -1);
+
+      return new PersistentMap(
+        root,
+        this.size - 1,
+        this.nextOrder,
+        contentHash,
+        this.hasher
+      );
+    } else {
+      return this;
+    }
+  }
+
+  /**
+   * Get all entries in insertion order.
+   * @returns {[string, V][]} An Array of key-value tuples.
+   */
+  public entries(): [string, V][] {
+    let entries: Entry<V>[] = [];
+    collectIn(this.root, entries);
+
+    return entries
+      .sort((v1, v2) => v1.order - v2.order)
+      .map((v): [string, V] => [v.key, v.value]);
+  }
+
+  /**
+   * Get all keys in insertion order.
+   * @returns {string[]} An Array of keys.
+   */
+  public keys(): string[] {
+    return this.entries().map(v => v[0]);
+  }
+
+  /**
+   * Get all values in insertion order.
+   * @returns {V[]} An Array of values.
+   */
+  public values(): V[] {
+    return this.entries().map(v => v[1]);
+  }
+
+  /**
+   * Convert the current map to a key-value object.
+   * @returns {JSObject<V>} A JSObject instance.
+   */
+  public toObject(): JSObject<V> {
+    let object: JSObject<V> = {};
+    this.entries().forEach(v => (object[v[0]] = v[1]));
+    return object;
+  }
+
+  /**
+   * Serialize the current map as a key-value object, so that JSON.stringify
+   * on a state produces the same layout as before.
+   * @returns {JSObject<V>} A JSObject instance.
+   */
+  public toJSON(): JSObject<V> {
+    return this.toObject();
+  }
+}
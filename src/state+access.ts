@@ -1,6 +1,13 @@
-import {Collections, Objects, Try} from 'javascriptutilities';
+import {Collections, Try} from 'javascriptutilities';
 import {Impl, Type} from './state+main';
-import {fromState} from './state+utility';
+import {KeyPath} from './state+path';
+
+import {
+  fromState,
+  pathSegments,
+  pathString,
+  valueInContainer,
+} from './state+utility';
 
 declare module './state+main' {
   export interface Type<T> {
@@ -18,166 +25,168 @@ declare module './state+main' {
 
     /**
      * Get the substate at a particular node.
-     * @param {string} path A string value.
+     * @param {KeyPath} path A KeyPath instance.
      * @returns {Try<Type<T>>} A Try Type instance.
      */
-    substateAtNode(path: string): Try<Type<T>>;
+    substateAtNode(path: KeyPath): Try<Type<T>>;
 
     /**
-     * Get the state value at a particular node.
-     * @param {string} path A string value.
+     * Get the state value at a particular node. If a path segment does not
+     * match any substate, the rest of the path is used to access elements of
+     * the array/plain object value at that segment, e.g. todos.0.title or
+     * todos[0].title. Keys that contain the separator can be escaped (e.g.
+     * 'a.example\.com.b') or passed as segments (['a', 'example.com', 'b']).
+     * @param {KeyPath} path A KeyPath instance.
      * @returns {Try<T>} Try T object.
      */
-    valueAtNode(path: string): Try<T>;
+    valueAtNode(path: KeyPath): Try<T>;
 
     /**
      * Convenience method to get a string from a node.
-     * @param {string} path A string value.
+     * @param {KeyPath} path A KeyPath instance.
      * @returns {Try<string>} A Try string instance.
      */
-    stringAtNode(path: string): Try<string>;
+    stringAtNode(path: KeyPath): Try<string>;
 
     /**
      * Convenience method to get a boolean from a node.
-     * @param {string} path A string value.
+     * @param {KeyPath} path A KeyPath instance.
      * @returns {Try<boolean>} A Try boolean instance.
      */
-    booleanAtNode(path: string): Try<boolean>;
+    booleanAtNode(path: KeyPath): Try<boolean>;
 
     /**
      * Convenience method to get a number from a node.
-     * @param {string} path A string value.
+     * @param {KeyPath} path A KeyPath instance.
      * @returns {Try<number>} A Try number instance.
      */
-    numberAtNode(path: string): Try<number>;
+    numberAtNode(path: KeyPath): Try<number>;
 
     /**
      * Convenience method to get R from a node.
      * @template R Generics parameter.
-     * @param {new () => R} ctor R constructor.
-     * @param {string} path A string value.
+     * @param {new (...args: any[]) => R} ctor R constructor.
+     * @param {KeyPath} path A KeyPath instance.
      * @returns {Try<R>} A Try R instance.
      */
-    instanceAtNode<R>(ctor: new () => R, path: string): Try<R>;
+    instanceAtNode<R>(ctor: new (...args: any[]) => R, path: KeyPath): Try<R>;
   }
 
   export interface Impl<T> extends Type<T> {
-    _substateAtNode(path: string, originalPath: string): Try<Type<T>>;
-    _valueAtNode(path: string, originalPath: string): Try<T>;
+    _substateAtNode(keys: string[], originalPath: string): Try<Type<T>>;
+    _valueAtNode(keys: string[], originalPath: string): Try<T>;
   }
 }
 
 Impl.prototype.firstValue = function<T>(): Try<T> {
-  return Collections.first(Objects.entries(this._values))
+  return Collections.first(this._values.entries())
     .map(v => v[0])
     .flatMap(v => this.valueAtNode(v));
 };
 
 Impl.prototype.firstSubstate = function<T>(): Try<Type<T>> {
-  return Collections.first(Objects.entries(this._substate))
+  return Collections.first(this._substate.entries())
     .map(v => v[0])
     .flatMap(v => this.substateAtNode(v));
 };
 
 Impl.prototype._substateAtNode = function<T>(
-  path: string,
+  keys: string[],
   original: string
 ): Try<Type<T>> {
-  let separator = this.substateSeparator;
-  let separated = path.split(separator);
-  let length = separated.length;
-  let first = Collections.first(separated);
+  let first = Collections.first(keys);
 
-  if (length === 1) {
-    /// If the path is an empty string, return the current state.
+  if (keys.length === 1) {
     return first
-      .map(v => Try.unwrap(this.substate[v]))
+      .map(v => Try.unwrap(this._substate.get(v)))
       .map(v => Try.unwrap(v))
       .flatMap(v => v.mapError(() => `No substate at ${original}`));
   } else {
-    return Try.evaluate(() => separated.slice(1, length).join(separator))
-      .zipWith(first, (v1, v2): [string, string] => [v1, v2])
-      .map(v =>
-        this._substateAtNode(v[1], original)
-          .map(v1 => fromState(v1) as Impl<T>)
-          .map(v1 => v1._substateAtNode(v[0], original))
-      )
-      .flatMap(v => v.flatMap(v1 => v1));
+    return first
+      .flatMap(v => this._substateAtNode([v], original))
+      .map(v => fromState(v) as Impl<T>)
+      .flatMap(v => v._substateAtNode(keys.slice(1), original));
   }
 };
 
-Impl.prototype.substateAtNode = function<T>(path: string): Try<Type<T>> {
-  return this._substateAtNode(path, path);
+Impl.prototype.substateAtNode = function<T>(path: KeyPath): Try<Type<T>> {
+  let separator = this.substateSeparator;
+  let keys = pathSegments(path, separator);
+  return this._substateAtNode(keys, pathString(path, separator));
 };
 
 Impl.prototype._valueAtNode = function<T>(
-  path: string,
+  keys: string[],
   original: string
 ): Try<T> {
-  let separator = this.substateSeparator;
-  let separated = path.split(separator);
-  let length = separated.length;
-  let first = Collections.first(separated);
+  let first = Collections.first(keys);
 
-  if (length === 1) {
+  if (keys.length === 1) {
     return first
-      .map(v => Try.unwrap(this.values[v]))
+      .map(v => Try.unwrap(this._values.get(v)))
       .flatMap(v => v.mapError(() => `No value found at ${original}`));
+  } else if (first.map(v => !this._substate.has(v)).getOrElse(false)) {
+    /// If there is no substate to descend into, the rest of the path may
+    /// point into an array/object value (e.g. todos.0.title).
+    return first
+      .flatMap(v => Try.unwrap(this._values.get(v)))
+      .flatMap(v => valueInContainer(v, keys.slice(1)))
+      .mapError(() => `No value found at ${original}`);
   } else {
-    return Try.evaluate(() => separated.slice(1, length).join(separator))
-      .zipWith(first, (v1, v2): [string, string] => [v1, v2])
-      .map(v =>
-        this._substateAtNode(v[1], original)
-          .map(v1 => fromState(v1) as Impl<T>)
-          .map(v1 => v1._valueAtNode(v[0], original))
-      )
-      .flatMap(v => v.flatMap(v1 => v1));
+    return first
+      .flatMap(v => this._substateAtNode([v], original))
+      .map(v => fromState(v) as Impl<T>)
+      .flatMap(v => v._valueAtNode(keys.slice(1), original));
   }
 };
 
-Impl.prototype.valueAtNode = function<T>(path: string): Try<T> {
-  return this._valueAtNode(path, path);
+Impl.prototype.valueAtNode = function<T>(path: KeyPath): Try<T> {
+  let separator = this.substateSeparator;
+  let keys = pathSegments(path, separator);
+  return this._valueAtNode(keys, pathString(path, separator));
 };
 
-Impl.prototype.stringAtNode = function(path: string): Try<string> {
+Impl.prototype.stringAtNode = function(path: KeyPath): Try<string> {
   return this.valueAtNode(path).map(v => {
     if (typeof v === 'string') {
       return v;
     } else {
-      throw Error(`No string at ${path}`);
+      throw Error(`No string at ${pathString(path, this.substateSeparator)}`);
     }
   });
 };
 
-Impl.prototype.booleanAtNode = function(path: string): Try<boolean> {
+Impl.prototype.booleanAtNode = function(path: KeyPath): Try<boolean> {
   return this.valueAtNode(path).map(v => {
     if (typeof v === 'boolean') {
       return v;
     } else {
-      throw Error(`No boolean at ${path}`);
+      throw Error(`No boolean at ${pathString(path, this.substateSeparator)}`);
     }
   });
 };
 
-Impl.prototype.numberAtNode = function(path: string): Try<number> {
+Impl.prototype.numberAtNode = function(path: KeyPath): Try<number> {
   return this.valueAtNode(path).map(v => {
     if (typeof v === 'number') {
       return v;
     } else {
-      throw Error(`No number at ${path}`);
+      throw Error(`No number at ${pathString(path, this.substateSeparator)}`);
     }
   });
 };
 
 Impl.prototype.instanceAtNode = function<R>(
-  ctor: new () => R,
-  path: string
+  ctor: new (...args: any[]) => R,
+  path: KeyPath
 ): Try<R> {
   return this.valueAtNode(path).map(v => {
     if (v instanceof ctor) {
       return v;
     } else {
-      throw Error(`No ${ctor.name} at ${path}`);
+      throw Error(
+        `No ${ctor.name} at ${pathString(path, this.substateSeparator)}`
+      );
     }
   });
 };
@@ -0,0 +1,107 @@
+import {Try} from 'javascriptutilities';
+import {Impl, Type} from './state+main';
+import {KeyPath} from './state+path';
+
+declare module './state+main' {
+  export interface Type<T> {
+    /**
+     * Append values to the array at some node. If there is no value at that
+     * node, a new array is created.
+     * @template R Generics parameter.
+     * @param {KeyPath} path A KeyPath instance.
+     * @param {...R[]} values A varargs of values.
+     * @returns {Type<T>} A Type instance.
+     */
+    pushingValue<R>(path: KeyPath, ...values: R[]): Type<T>;
+
+    /**
+     * Insert a value into the array at some node.
+     * @template R Generics parameter.
+     * @param {KeyPath} path A KeyPath instance.
+     * @param {number} index The index to insert at.
+     * @param {R} value R object.
+     * @returns {Type<T>} A Type instance.
+     */
+    insertingValue<R>(path: KeyPath, index: number, value: R): Type<T>;
+
+    /**
+     * Remove the element at some index from the array at some node.
+     * @param {KeyPath} path A KeyPath instance.
+     * @param {number} index The index to remove.
+     * @returns {Type<T>} A Type instance.
+     */
+    removingIndex(path: KeyPath, index: number): Type<T>;
+
+    /**
+     * Remove and/or insert elements in the array at some node, with the same
+     * arguments as Array.prototype.splice.
+     * @template R Generics parameter.
+     * @param {KeyPath} path A KeyPath instance.
+     * @param {number} start The index to start at.
+     * @param {number} deleteCount The number of elements to remove.
+     * @param {...R[]} items A varargs of values to insert.
+     * @returns {Type<T>} A Type instance.
+     */
+    splicing<R>(
+      path: KeyPath,
+      start: number,
+      deleteCount: number,
+      ...items: R[]
+    ): Type<T>;
+  }
+
+  export interface Impl<T> extends Type<T> {}
+}
+
+/**
+ * Update a copy of the array in some Try. Values that are not arrays are
+ * returned as they are, so that the node is left unchanged.
+ * @template U Generics parameter.
+ * @param {Try<U[]>} value A Try U[] instance.
+ * @param {(array: U[]) => void} fn Selector function.
+ * @returns {Try<U[]>} A Try U[] instance.
+ */
+function updateArray<U>(value: Try<U[]>, fn: (array: U[]) => void): Try<U[]> {
+  let array = value.getOrElse([]);
+
+  if (array instanceof Array) {
+    let copy = array.slice();
+    fn(copy);
+    return Try.success(copy);
+  } else {
+    return value;
+  }
+}
+
+Impl.prototype.pushingValue = function<T, R>(
+  path: KeyPath,
+  ...values: R[]
+): Type<T> {
+  return this.mappingValue(path, v => updateArray(v, v1 => v1.push(...values)));
+};
+
+Impl.prototype.insertingValue = function<T, R>(
+  path: KeyPath,
+  index: number,
+  value: R
+): Type<T> {
+  return this.splicing(path, index, 0, value);
+};
+
+Impl.prototype.removingIndex = function<T>(
+  path: KeyPath,
+  index: number
+): Type<T> {
+  return this.splicing(path, index, 1);
+};
+
+Impl.prototype.splicing = function<T, R>(
+  path: KeyPath,
+  start: number,
+  deleteCount: number,
+  ...items: R[]
+): Type<T> {
+  return this.mappingValue(path, v =>
+    updateArray(v, v1 => v1.splice(start, deleteCount, ...items))
+  );
+};
@@ -1,58 +1,87 @@
 import {Impl, Type} from './state+main';
-import {empty} from './state+utility';
+import {KeyPath} from './state+path';
+import {empty, fromState, pathSegments} from './state+utility';
 
 declare module './state+main' {
   export interface Type<T> {
     /**
      * Clone the current State, but only include the substates found at the
      * specified nodes.
-     * @param {...string[]} paths A varargs of id.
+     * @param {...KeyPath[]} paths A varargs of id.
      * @returns {Type<T>} A Type instance.
      */
-    cloningWithSubstatesAtNodes(...paths: string[]): Type<T>;
+    cloningWithSubstatesAtNodes(...paths: KeyPath[]): Type<T>;
 
     /**
      * Clone the current State, but only include the values found at the specified
      * nodes.
-     * @param {...string[]} paths A varargs of id.
+     * @param {...KeyPath[]} paths A varargs of id.
      * @returns {Type<T>} A Type instance.
      */
-    cloningWithValuesAtNodes(...paths: string[]): Type<T>;
+    cloningWithValuesAtNodes(...paths: KeyPath[]): Type<T>;
 
     /**
      * Clone the current State with the specified value and substate paths.
-     * @param {string[]} valuePaths An array of value paths.
-     * @param {string[]} substatePaths An array of substate paths.
+     * Value paths that point into an array/plain object value (e.g.
+     * todos.0.title) copy that whole value.
+     * @param {KeyPath[]} valuePaths An array of value paths.
+     * @param {KeyPath[]} substatePaths An array of substate paths.
      * @returns {Type<T>} A Type instance.
      */
-    cloneWithPaths(valuePaths: string[], substatePaths: string[]): Type<T>;
+    cloneWithPaths(valuePaths: KeyPath[], substatePaths: KeyPath[]): Type<T>;
   }
 
   export interface Impl<T> extends Type<T> {}
 }
 
+/**
+ * Get the path of the value that holds some value path, which is the path
+ * itself unless it points into an array/plain object value.
+ * @template T Generics parameter.
+ * @param {Impl<T>} state An Impl instance.
+ * @param {string[]} keys An Array of keys.
+ * @returns {string[]} An Array of keys.
+ */
+function storedValueKeys<T>(state: Impl<T>, keys: string[]): string[] {
+  let node = state;
+
+  for (let i = 0; i < keys.length - 1; i++) {
+    if (!node._substate.has(keys[i])) {
+      return keys.slice(0, i + 1);
+    }
+
+    node = fromState(node._substate.get(keys[i])) as Impl<T>;
+  }
+
+  return keys;
+}
+
 Impl.prototype.cloningWithSubstatesAtNodes = function<T>(
-  ...paths: string[]
+  ...paths: KeyPath[]
 ): Type<T> {
   return this.cloneWithPaths([], paths);
 };
 
 Impl.prototype.cloningWithValuesAtNodes = function<T>(
-  ...paths: string[]
+  ...paths: KeyPath[]
 ): Type<T> {
   return this.cloneWithPaths(paths, []);
 };
 
 Impl.prototype.cloneWithPaths = function<T>(
-  valuePaths: string[],
-  substatePaths: string[]
+  valuePaths: KeyPath[],
+  substatePaths: KeyPath[]
 ): Type<T> {
-  let state = empty<T>();
+  let state = empty<T>(this.substateSeparator);
 
   for (let id of valuePaths) {
-    this.valueAtNode(id).doOnNext(v => {
-      state = state.updatingValue(id, v);
-    });
+    let keys = storedValueKeys(this, pathSegments(id, this.substateSeparator));
+
+    this.valueAtNode(id)
+      .flatMap(() => this.valueAtNode(keys))
+      .doOnNext(v => {
+        state = state.updatingValue(keys, v);
+      });
   }
 
   for (let id of substatePaths) {
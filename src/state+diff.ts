@@ -0,0 +1,101 @@
+import {Never, Try} from 'javascriptutilities';
+import {Change, Impl, StateType} from './state+main';
+import {join} from './state+path';
+import {fromKeyValue} from './state+utility';
+
+declare module './state+main' {
+  export interface Type<T> {
+    /**
+     * Get the changes that turn the current state into another state. Values
+     * are compared with the specified function (or strict equality if none
+     * is given), while substates that are present on only one side are
+     * reported as a whole, without listing the values they contain.
+     * @param {Never<StateType<T>>} state A StateType instance.
+     * @param {(v1: T, v2: T) => boolean} [equalFn] Optional compare function.
+     * @returns {Change<T>[]} An Array of changes.
+     */
+    diff(
+      state: Never<StateType<T>>,
+      equalFn?: (v1: T, v2: T) => boolean
+    ): Change<T>[];
+  }
+
+  export interface Impl<T> extends Type<T> {
+    _diff(
+      state: Impl<T>,
+      ssPath: Try<string>,
+      equalFn: (v1: T, v2: T) => boolean,
+      changes: Change<T>[]
+    ): void;
+  }
+}
+
+Impl.prototype._diff = function<T>(
+  state: Impl<T>,
+  ssPath: Try<string>,
+  equalFn: (v1: T, v2: T) => boolean,
+  changes: Change<T>[]
+): void {
+  let separator = this.substateSeparator;
+  let prefix = ssPath.map(v => v + separator).getOrElse('');
+  let pathOf = (key: string): string => prefix + join([key], separator);
+  let otherValues = state._values;
+  let otherSubstates = state._substate;
+
+  this._values.entries().forEach(([key, oldValue]) => {
+    let path = pathOf(key);
+
+    if (!otherValues.has(key)) {
+      changes.push({type: 'valueRemoved', path, value: oldValue});
+    } else {
+      let newValue = otherValues.get(key) as T;
+
+      if (!equalFn(oldValue, newValue)) {
+        changes.push({type: 'valueChanged', path, oldValue, newValue});
+      }
+    }
+  });
+
+  otherValues.entries().forEach(([key, value]) => {
+    if (!this._values.has(key)) {
+      changes.push({type: 'valueAdded', path: pathOf(key), value});
+    }
+  });
+
+  this._substate.entries().forEach(([key, substate]) => {
+    let path = pathOf(key);
+    let otherSubstate = otherSubstates.get(key);
+
+    if (otherSubstate === undefined || otherSubstate === null) {
+      changes.push({type: 'substateRemoved', path, substate});
+    } else if (otherSubstate !== substate) {
+      /// Unmodified substates are shared between states, so identical
+      /// references can be skipped without looking inside.
+      let lhs = fromKeyValue(substate) as Impl<T>;
+      let rhs = fromKeyValue(otherSubstate) as Impl<T>;
+      lhs._diff(rhs, Try.success(path), equalFn, changes);
+    }
+  });
+
+  otherSubstates.entries().forEach(([key, substate]) => {
+    if (!this._substate.has(key)) {
+      changes.push({type: 'substateAdded', path: pathOf(key), substate});
+    }
+  });
+};
+
+Impl.prototype.diff = function<T>(
+  state: Never<StateType<T>>,
+  equalFn?: (v1: T, v2: T) => boolean
+): Change<T>[] {
+  let compareFn =
+    equalFn !== undefined && equalFn !== null
+      ? equalFn
+      : (v1: T, v2: T): boolean => v1 === v2;
+
+  let changes: Change<T>[] = [];
+  let other = fromKeyValue(state) as Impl<T>;
+  let ssPath = Try.failure<string>('No substate path for top state');
+  this._diff(other, ssPath, compareFn, changes);
+  return changes;
+};
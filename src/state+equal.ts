@@ -1,104 +1,319 @@
 import {Never} from 'javascriptutilities';
-import {Impl, StateType, Type} from './state+main';
-import {fromKeyValue} from './state+utility';
+import {combineHash, hashEntry} from './persistent-map';
+import {
+  EqualityOptions,
+  Impl,
+  StateType,
+  Type,
+  ValueComparator,
+} from './state+main';
+import {KeyPath} from './state+path';
+import {matchesPattern} from './state+query';
+import {fromKeyValue, fromState, pathSegments} from './state+utility';
 
 declare module './state+main' {
   export interface Type<T> {
     /**
-     * Check if the current state equals another state.
+     * Get a structural hash of the current state. States that are equal have
+     * the same hash. The hash is kept up to date with every update, so it is
+     * available right away, except for drafts within a mutation session,
+     * whose updated substates are hashed again.
+     * @returns {number} A number value.
+     */
+    hashCode(): number;
+
+    /**
+     * Check if the current state equals another state, i.e. both have equal
+     * values and equal substates at the same keys. Identical states, and
+     * states with different hashes if values are compared strictly without
+     * ignored paths, are detected without traversing them.
      * @param {StateType<JSObject<any>>} object A JSObject instance.
+     * @param {EqualityOptions<T>} options Optional equality options.
      * @returns {boolean} A boolean value.
      */
-    equals(state: Never<StateType<T>>): boolean;
+    equals(state: Never<StateType<T>>, options?: EqualityOptions<T>): boolean;
 
     /**
      * Check if two State are equal in values for the specified keys.
      * @param {Never<StateType<T>>} state A StateType instance.
-     * @param {string[]} keys An Array of keys.
-     * @param {(v1: T, v2: T) => boolean} [equalFn] Optional compare function.
+     * @param {KeyPath[]} keys An Array of paths.
+     * @param {ValueComparator<T> | EqualityOptions<T>} [options] Optional
+     * compare function or equality options.
      * @returns {boolean} A boolean value.
      */
     equalsForValues(
       state: Never<StateType<T>>,
-      keys: string[],
-      equalFn?: (v1: T, v2: T) => boolean
+      keys: KeyPath[],
+      options?: ValueComparator<T> | EqualityOptions<T>
     ): boolean;
 
     /**
      * Check if two State are equal in substates for the specified keys.
      * @param {Never<StateType<T>>} state A StateType instance.
-     * @param {string[]} keys An Array of keys.
-     * @param {(v1: Type<T>, v2: Type<T>) => boolean} [equalFn] Optional compare
-     * function.
+     * @param {KeyPath[]} keys An Array of paths.
+     * @param {ValueComparator<Type<T>> | EqualityOptions<T>} [options]
+     * Optional compare function or equality options, which are used to
+     * compare the values within the substates.
      * @returns {boolean} A boolean value.
      */
     equalsForSubstates(
       state: Never<StateType<T>>,
+      keys: KeyPath[],
+      options?: ValueComparator<Type<T>> | EqualityOptions<T>
+    ): boolean;
+  }
+
+  export interface Impl<T> extends Type<T> {
+    /**
+     * Check if the current state equals another state.
+     * @param {Impl<T>} state An Impl instance.
+     * @param {string[]} keys The path of the current state.
+     * @param {EqualityOptions<T>} options An EqualityOptions instance.
+     * @param {string[][]} patterns The parsed ignored paths.
+     * @returns {boolean} A boolean value.
+     */
+    _equals(
+      state: Impl<T>,
       keys: string[],
-      equalFn?: (v1: Type<T>, v2: Type<T>) => boolean
+      options: EqualityOptions<T>,
+      patterns: string[][]
     ): boolean;
   }
+}
+
+/**
+ * Check if a value is a plain object, i.e. not an instance of some class.
+ * @param {*} value Any value.
+ * @returns {boolean} A boolean value.
+ */
+function isPlainObject(value: any): boolean {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
 
-  export interface Impl<T> extends Type<T> {}
+  let prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
 }
 
-Impl.prototype.equals = function(object: Never<StateType<any>>): boolean {
-  if (object !== undefined && object !== null) {
-    let state = fromKeyValue(object);
-    let thisValues = this._values;
-    let otherValues = state.values;
-    let thisSubstates = this._substate;
-    let otherSubstates = state.substate;
-    let thisKeys = Object.keys(thisValues);
-    let thisSubstateKeys = Object.keys(thisSubstates);
-
-    for (let key of thisKeys) {
-      let v1 = thisValues[key];
-      let v2 = otherValues[key];
-
-      try {
-        if (
-          v1 !== undefined &&
-          v1 !== null &&
-          v2 !== undefined &&
-          v2 !== null &&
-          v1 === v2
-        ) {
-          continue;
-        } else if (v1 === undefined && v2 === undefined) {
-          continue;
-        } else if (v1 === null && v2 === null) {
-          continue;
-        } else {
-          return false;
-        }
-      } catch {
-        return false;
-      }
-    }
+/**
+ * Check if two values are deeply equal. Arrays, plain objects, Maps and Sets
+ * are compared by content, and Dates by time. Other values are compared with
+ * ===, except that NaN equals NaN.
+ * @param {*} v1 Any value.
+ * @param {*} v2 Any value.
+ * @param {boolean} treatMissingAsUndefined If true, plain object properties
+ * that are missing equal those that are undefined.
+ * @returns {boolean} A boolean value.
+ */
+export function deepEquals(
+  v1: any,
+  v2: any,
+  treatMissingAsUndefined: boolean = false
+): boolean {
+  let equalFn = (a: any, b: any) => deepEquals(a, b, treatMissingAsUndefined);
+
+  if (v1 === v2 || (v1 !== v1 && v2 !== v2)) {
+    return true;
+  } else if (v1 instanceof Date && v2 instanceof Date) {
+    return v1.getTime() === v2.getTime();
+  } else if (v1 instanceof Array && v2 instanceof Array) {
+    return v1.length === v2.length && v1.every((v, i) => equalFn(v, v2[i]));
+  } else if (v1 instanceof Map && v2 instanceof Map) {
+    let isEqual = v1.size === v2.size;
+
+    v1.forEach((v, k) => {
+      isEqual = isEqual && v2.has(k) && equalFn(v, v2.get(k));
+    });
+
+    return isEqual;
+  } else if (v1 instanceof Set && v2 instanceof Set) {
+    let isEqual = v1.size === v2.size;
+    let candidates: any[] = [];
+    v2.forEach(v => candidates.push(v));
+
+    /// Elements that are not found by identity may still have a deeply equal
+    /// counterpart, e.g. object literals.
+    v1.forEach(v => {
+      isEqual = isEqual && (v2.has(v) || candidates.some(v3 => equalFn(v, v3)));
+    });
 
-    for (let key of thisSubstateKeys) {
-      let v1 = thisSubstates[key];
-      let v2 = otherSubstates[key];
-
-      if (
-        v1 !== undefined &&
-        v1 !== null &&
-        v2 !== undefined &&
-        v2 !== null &&
-        v1.equals(v2)
-      ) {
-        continue;
-      } else if (v1 === undefined && v2 === undefined) {
-        continue;
-      } else if (v1 === null && v2 === null) {
-        continue;
-      } else {
-        return false;
-      }
+    return isEqual;
+  } else if (isPlainObject(v1) && isPlainObject(v2)) {
+    let keys1 = Object.keys(v1);
+    let keys2 = Object.keys(v2);
+
+    if (treatMissingAsUndefined) {
+      return keys1
+        .concat(keys2.filter(v => keys1.indexOf(v) === -1))
+        .every(v => equalFn(v1[v], v2[v]));
+    } else {
+      return (
+        keys1.length === keys2.length &&
+        keys1.every(v => v2.hasOwnProperty(v) && equalFn(v1[v], v2[v]))
+      );
     }
+  } else {
+    return false;
+  }
+}
+
+/**
+ * Get the function that compares values for some equality options.
+ * @template T Generics parameter.
+ * @param {EqualityOptions<T>} options An EqualityOptions instance.
+ * @returns {ValueComparator<T>} A ValueComparator instance.
+ */
+function comparatorOf<T>(options: EqualityOptions<T>): ValueComparator<T> {
+  let {valueComparator, treatMissingAsUndefined} = options;
+
+  if (typeof valueComparator === 'function') {
+    return valueComparator;
+  } else if (valueComparator === 'deep') {
+    return (v1, v2) => deepEquals(v1, v2, treatMissingAsUndefined);
+  } else {
+    return (v1, v2) => v1 === v2;
+  }
+}
+
+/**
+ * Compare two values that may be missing.
+ * @template T Generics parameter.
+ * @param {*} v1 Any value.
+ * @param {*} v2 Any value.
+ * @param {EqualityOptions<T>} options An EqualityOptions instance.
+ * @returns {boolean} A boolean value.
+ */
+function compareValues<T>(
+  v1: any,
+  v2: any,
+  options: EqualityOptions<T>
+): boolean {
+  let isMissing = (v: any) => v === undefined || v === null;
 
+  if (v1 === v2) {
     return true;
+  } else if (
+    (isMissing(v1) || isMissing(v2)) &&
+    !(options.treatMissingAsUndefined && (v1 === undefined || v2 === undefined))
+  ) {
+    return false;
+  }
+
+  try {
+    return comparatorOf(options)(v1, v2);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse the ignored paths of some equality options.
+ * @template T Generics parameter.
+ * @param {EqualityOptions<T>} options An EqualityOptions instance.
+ * @param {string} separator The substate separator.
+ * @returns {string[][]} An Array of pattern segments.
+ */
+function ignoredPatterns<T>(
+  options: EqualityOptions<T>,
+  separator: string
+): string[][] {
+  return (options.ignorePaths || []).map(v => pathSegments(v, separator));
+}
+
+Impl.prototype.hashCode = function(): number {
+  if (!this.isOwned()) {
+    return this.contentHash;
+  }
+
+  /// Substates of a draft may have been updated in place after they were
+  /// stored, so their stored hashes cannot be trusted until they are disowned.
+  let substateHash = this._substate
+    .entries()
+    .filter(([_key, substate]) => substate !== undefined && substate !== null)
+    .map(([key, substate]) => hashEntry(key, substate!.hashCode()))
+    .reduce((acc, v) => combineHash(acc, v, 1), 0);
+
+  return hashEntry(String(this._values.contentHash), substateHash);
+};
+
+Impl.prototype._equals = function<T>(
+  state: Impl<T>,
+  keys: string[],
+  options: EqualityOptions<T>,
+  patterns: string[][]
+): boolean {
+  let {valueComparator = 'strict'} = options;
+  let isIgnored = (v: string) =>
+    patterns.some(v1 => matchesPattern(v1, keys.concat([v])));
+
+  if (state === this) {
+    return true;
+  } else if (
+    valueComparator === 'strict' &&
+    patterns.length === 0 &&
+    state.hashCode() !== this.hashCode()
+  ) {
+    return false;
+  }
+
+  let thisValues = this._values;
+  let otherValues = state._values;
+  let thisSubstates = this._substate;
+  let otherSubstates = state._substate;
+
+  /// Keys that only exist in the other state are checked as well, so that
+  /// the comparison is symmetric.
+  let valueKeys = thisValues
+    .keys()
+    .concat(otherValues.keys().filter(v => !thisValues.has(v)));
+
+  let substateKeys = thisSubstates
+    .keys()
+    .concat(otherSubstates.keys().filter(v => !thisSubstates.has(v)));
+
+  for (let key of valueKeys) {
+    let v1 = thisValues.get(key);
+    let v2 = otherValues.get(key);
+
+    if (!isIgnored(key) && !compareValues(v1, v2, options)) {
+      return false;
+    }
+  }
+
+  for (let key of substateKeys) {
+    let v1 = thisSubstates.get(key);
+    let v2 = otherSubstates.get(key);
+
+    if (v1 === v2 || isIgnored(key)) {
+      continue;
+    } else if (
+      v1 === undefined ||
+      v1 === null ||
+      v2 === undefined ||
+      v2 === null ||
+      !(fromState(v1) as Impl<T>)._equals(
+        fromState(v2) as Impl<T>,
+        keys.concat([key]),
+        options,
+        patterns
+      )
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+Impl.prototype.equals = function<T>(
+  object: Never<StateType<T>>,
+  options?: EqualityOptions<T>
+): boolean {
+  if (object !== undefined && object !== null) {
+    let state = fromKeyValue(object) as Impl<T>;
+    let equalOptions = options || {};
+    let patterns = ignoredPatterns(equalOptions, this.substateSeparator);
+    return this._equals(state, [], equalOptions, patterns);
   } else {
     return false;
   }
@@ -106,27 +321,28 @@ Impl.prototype.equals = function(object: Never<StateType<any>>): boolean {
 
 Impl.prototype.equalsForValues = function<T>(
   state: Never<StateType<T>>,
-  keys: string[],
-  equalFn?: (v1: T, v2: T) => boolean
+  keys: KeyPath[],
+  options?: ValueComparator<T> | EqualityOptions<T>
 ): boolean {
-  let compareFn =
-    equalFn !== undefined && equalFn !== null
-      ? equalFn
-      : (v1: T, v2: T): boolean => v1 === v2;
+  let separator = this.substateSeparator;
+
+  let equalOptions: EqualityOptions<T> =
+    typeof options === 'function' ? {valueComparator: options} : options || {};
 
+  let patterns = ignoredPatterns(equalOptions, separator);
   let parsedState = fromKeyValue(state);
 
   for (let key of keys) {
-    let lhsValue = this.valueAtNode(key);
-    let rhsValue = parsedState.valueAtNode(key);
+    let segments = pathSegments(key, separator);
 
-    if (lhsValue.isFailure() && rhsValue.isFailure()) {
+    if (patterns.some(v => matchesPattern(v, segments))) {
       continue;
-    } else if (
-      !lhsValue
-        .zipWith(rhsValue, (v1, v2) => compareFn(v1, v2))
-        .getOrElse(false)
-    ) {
+    }
+
+    let lhsValue = this.valueAtNode(segments).value;
+    let rhsValue = parsedState.valueAtNode(segments).value;
+
+    if (!compareValues(lhsValue, rhsValue, equalOptions)) {
       return false;
     }
   }
@@ -136,19 +352,36 @@ Impl.prototype.equalsForValues = function<T>(
 
 Impl.prototype.equalsForSubstates = function<T>(
   state: Never<StateType<T>>,
-  keys: string[],
-  equalFn?: (v1: Type<T>, v2: Type<T>) => boolean
+  keys: KeyPath[],
+  options?: ValueComparator<Type<T>> | EqualityOptions<T>
 ): boolean {
-  let compareFn =
-    equalFn !== undefined && equalFn !== null
-      ? equalFn
-      : (v1: Type<T>, v2: Type<T>): boolean => v1.equals(v2);
+  let separator = this.substateSeparator;
+  let equalOptions: EqualityOptions<T> =
+    typeof options === 'function' ? {} : options || {};
 
+  let patterns = ignoredPatterns(equalOptions, separator);
   let parsedState = fromKeyValue(state);
 
   for (let key of keys) {
-    let lhsValue = this.substateAtNode(key);
-    let rhsValue = parsedState.substateAtNode(key);
+    let segments = pathSegments(key, separator);
+
+    let compareFn =
+      typeof options === 'function'
+        ? options
+        : (v1: Type<T>, v2: Type<T>) =>
+            (fromState(v1) as Impl<T>)._equals(
+              fromState(v2) as Impl<T>,
+              segments,
+              equalOptions,
+              patterns
+            );
+
+    if (patterns.some(v => matchesPattern(v, segments))) {
+      continue;
+    }
+
+    let lhsValue = this.substateAtNode(segments);
+    let rhsValue = parsedState.substateAtNode(segments);
 
     if (lhsValue.isFailure() && rhsValue.isFailure()) {
       continue;
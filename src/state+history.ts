@@ -0,0 +1,216 @@
+import {Never, Undefined} from 'javascriptutilities';
+import {PatchOperation, Type} from './state+main';
+import {createPatch} from './state+patch';
+
+export interface HistoryOptions {
+  /**
+   * The maximum number of undo steps to keep. Older steps are dropped.
+   */
+  readonly maxDepth?: number;
+
+  /**
+   * If true, consecutive pushes that change the same set of paths are merged
+   * into a single undo step (e.g. typing into the same form field).
+   */
+  readonly coalesce?: boolean;
+
+  /**
+   * If true, undo/redo steps are stored as JSON patches between consecutive
+   * states instead of full snapshots. Steps whose changes a patch cannot
+   * express (e.g. a value replaced by an equal copy) are still snapshots.
+   */
+  readonly compact?: boolean;
+}
+
+/**
+ * Represents an undo/redo history of states. Like states, a history is
+ * immutable - all operations return a new history.
+ * @template T Generics parameter.
+ */
+export interface History<T> {
+  readonly current: Type<T>;
+  readonly undoCount: number;
+  readonly redoCount: number;
+
+  /**
+   * Record a new state. This clears the redo steps.
+   * @param {Type<T>} state A Type instance.
+   * @returns {History<T>} A History instance.
+   */
+  push(state: Type<T>): History<T>;
+
+  /**
+   * Go back to the previous state, if any.
+   * @returns {History<T>} A History instance.
+   */
+  undo(): History<T>;
+
+  /**
+   * Go forward to the next state, if any.
+   * @returns {History<T>} A History instance.
+   */
+  redo(): History<T>;
+
+  /**
+   * Check if there is a previous state.
+   * @returns {boolean} A boolean value.
+   */
+  canUndo(): boolean;
+
+  /**
+   * Check if there is a next state.
+   * @returns {boolean} A boolean value.
+   */
+  canRedo(): boolean;
+}
+
+/**
+ * Restores one state from another, either as a snapshot or as a patch.
+ * @template T Generics parameter.
+ */
+type Step<T> = {state: Type<T>} | {patch: PatchOperation[]};
+
+class HistoryImpl<T> implements History<T> {
+  public get undoCount(): number {
+    return this.past.length;
+  }
+
+  public get redoCount(): number {
+    return this.future.length;
+  }
+
+  public constructor(
+    public readonly current: Type<T>,
+    private readonly past: Step<T>[],
+    private readonly future: Step<T>[],
+    private readonly lastPaths: Undefined<string[]>,
+    private readonly options: HistoryOptions
+  ) {}
+
+  public push(state: Type<T>): History<T> {
+    if (state === this.current) {
+      return this;
+    }
+
+    let paths = this.current
+      .diff(state)
+      .map(v => v.path)
+      .sort();
+
+    let lastPaths = this.lastPaths;
+
+    if (paths.length === 0) {
+      let {past, future, options} = this;
+      return new HistoryImpl(state, past, future, lastPaths, options);
+    } else if (
+      this.options.coalesce &&
+      this.past.length > 0 &&
+      lastPaths !== undefined &&
+      lastPaths.length === paths.length &&
+      lastPaths.every((v, i) => v === paths[i])
+    ) {
+      /// Keep restoring the state from before the first coalesced push.
+      let last = this.past.length - 1;
+      let previous = this.restore(this.past[last], this.current);
+      let past = this.past.slice(0, last).concat([this.step(state, previous)]);
+      return new HistoryImpl(state, past, [], paths, this.options);
+    } else {
+      let step = this.step(state, this.current);
+      let past = this.trim(this.past.concat([step]));
+      return new HistoryImpl(state, past, [], paths, this.options);
+    }
+  }
+
+  public undo(): History<T> {
+    if (!this.canUndo()) {
+      return this;
+    }
+
+    let last = this.past.length - 1;
+    let previous = this.restore(this.past[last], this.current);
+    let future = this.future.concat([this.step(previous, this.current)]);
+    let past = this.past.slice(0, last);
+    return new HistoryImpl(previous, past, future, undefined, this.options);
+  }
+
+  public redo(): History<T> {
+    if (!this.canRedo()) {
+      return this;
+    }
+
+    let last = this.future.length - 1;
+    let next = this.restore(this.future[last], this.current);
+    let past = this.trim(this.past.concat([this.step(next, this.current)]));
+    let future = this.future.slice(0, last);
+    return new HistoryImpl(next, past, future, undefined, this.options);
+  }
+
+  public canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  public canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Create a step that restores some target state from a base state.
+   * @param {Type<T>} base A Type instance.
+   * @param {Type<T>} target A Type instance.
+   * @returns {Step<T>} A Step instance.
+   */
+  private step(base: Type<T>, target: Type<T>): Step<T> {
+    let patch = this.options.compact ? createPatch(base, target) : [];
+
+    /// Patches compare values by content, so changes to values that are only
+    /// equal by content are kept as snapshots instead of being lost.
+    if (this.options.compact && (patch.length > 0 || base.equals(target))) {
+      return {patch};
+    } else {
+      return {state: target};
+    }
+  }
+
+  /**
+   * Restore a state by applying some step to a base state.
+   * @param {Step<T>} step A Step instance.
+   * @param {Type<T>} base A Type instance.
+   * @returns {Type<T>} A Type instance.
+   */
+  private restore(step: Step<T>, base: Type<T>): Type<T> {
+    if ('patch' in step) {
+      return base.applyingPatch(step.patch).getOrThrow();
+    } else {
+      return step.state;
+    }
+  }
+
+  /**
+   * Drop the oldest steps beyond the maximum depth.
+   * @param {Step<T>[]} steps An Array of steps.
+   * @returns {Step<T>[]} An Array of steps.
+   */
+  private trim(steps: Step<T>[]): Step<T>[] {
+    let maxDepth = this.options.maxDepth;
+
+    if (maxDepth !== undefined && steps.length > maxDepth) {
+      return steps.slice(steps.length - Math.max(maxDepth, 0));
+    } else {
+      return steps;
+    }
+  }
+}
+
+/**
+ * Create a new history with an initial state.
+ * @template T Generics parameter.
+ * @param {Type<T>} initial A Type instance.
+ * @param {Never<HistoryOptions>} options Optional history options.
+ * @returns {History<T>} A History instance.
+ */
+export function history<T>(
+  initial: Type<T>,
+  options?: Never<HistoryOptions>
+): History<T> {
+  return new HistoryImpl(initial, [], [], undefined, options || {});
+}
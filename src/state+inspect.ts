@@ -1,5 +1,6 @@
-import {Collections, JSObject, Never, Objects, Try} from 'javascriptutilities';
+import {Collections, JSObject, Never, Try} from 'javascriptutilities';
 import {ForEach, Impl, Type, valuesKey, substateKey} from './state+main';
+import {join} from './state+path';
 import {empty, fromState} from './state+utility';
 
 declare module './state+main' {
@@ -47,7 +48,8 @@ declare module './state+main' {
     flatten(): JSObject<any>;
 
     /**
-     * Traverse through the state tree and perform some side-effects.
+     * Traverse through the state tree and perform some side-effects. Keys
+     * that contain the separator are escaped in substate paths.
      * @param {ForEach<T>} selector Selector function.
      */
     forEach(selector: ForEach<T>): void;
@@ -68,6 +70,7 @@ declare module './state+main' {
 
     /**
      * Get all values with their respective paths that are joined in full.
+     * Keys that contain the separator are escaped (see Path.join).
      * @returns {JSObject<T>} A JSObject instance.
      */
     valuesWithFullPaths(): JSObject<T>;
@@ -100,11 +103,11 @@ declare module './state+main' {
 }
 
 Impl.prototype.hasValues = function(): boolean {
-  return Object.keys(this._values).length > 0;
+  return this._values.size > 0;
 };
 
 Impl.prototype.hasSubstate = function(): boolean {
-  return Object.keys(this._substate).length > 0;
+  return this._substate.size > 0;
 };
 
 Impl.prototype.isEmpty = function(): boolean {
@@ -113,8 +116,7 @@ Impl.prototype.isEmpty = function(): boolean {
 
 Impl.prototype.levelCount = function(): number {
   return (
-    Try.success(Objects.entries(this._substate))
-      .map(v => v.map(v1 => v1[1]))
+    Try.success(this._substate.values())
       .map(v => Collections.flatMap(v))
       .filter(v => v.length > 0, 'Empty substates')
       .map(v => v.map(v1 => v1.levelCount()))
@@ -124,10 +126,9 @@ Impl.prototype.levelCount = function(): number {
 };
 
 Impl.prototype.totalValueCount = function(): number {
-  let valueCount = Objects.entries(this._values).length;
+  let valueCount = this._values.size;
 
-  let ssValueCount = Try.success(Objects.entries(this._substate))
-    .map(v => v.map(v1 => v1[1]))
+  let ssValueCount = Try.success(this._substate.values())
     .map(v => Collections.flatMap(v))
     .map(v => v.map(v1 => v1.totalValueCount()))
     .map(v => v.reduce((v1, v2) => v1 + v2))
@@ -137,11 +138,12 @@ Impl.prototype.totalValueCount = function(): number {
 };
 
 Impl.prototype.flatten = function(): JSObject<any> {
-  let substates = Objects.entries(this._substate)
+  let substates = this._substate
+    .entries()
     .map(v => ({[v[0]]: Try.unwrap(v[1]).map(v1 => v1.flatten()).value}))
-    .reduce((v1, v2) => Object.assign({}, v1, v2), {});
+    .reduce((acc, v) => Object.assign(acc, v), {});
 
-  return {[valuesKey]: this._values, [substateKey]: substates};
+  return {[valuesKey]: this._values.toObject(), [substateKey]: substates};
 };
 
 Impl.prototype._forEach = function<T>(
@@ -150,8 +152,8 @@ Impl.prototype._forEach = function<T>(
   current: Never<number>
 ): void {
   let separator = this.substateSeparator;
-  let valueEntries = Objects.entries(this.values);
-  let substateEntries = Objects.entries(this.substate);
+  let valueEntries = this._values.entries();
+  let substateEntries = this._substate.entries();
   let level = current || 0;
 
   valueEntries.forEach(v => {
@@ -168,7 +170,8 @@ Impl.prototype._forEach = function<T>(
     .map(v => Collections.flatMap(v))
     .map(v =>
       v.forEach(v1 => {
-        let path = ssPath.map(v2 => v2 + separator).getOrElse('') + v1[0];
+        let prefix = ssPath.map(v2 => v2 + separator).getOrElse('');
+        let path = prefix + join([v1[0]], separator);
         let newLevel = level + 1;
         let newPath = Try.success(path);
         (fromState(v1[1]) as Impl<T>)._forEach(selector, newPath, newLevel);
@@ -198,7 +201,7 @@ Impl.prototype.valuesForMatchingPaths = function<T>(
 Impl.prototype._createSingleBranches = function<T>(
   ssKey: Never<string>
 ): [string, Type<T>][] {
-  let substateBranches = Try.success(Objects.entries(this._substate))
+  let substateBranches = Try.success(this._substate.entries())
     .map(v =>
       v.map(v1 => {
         return Try.unwrap(v1[1])
@@ -218,7 +221,12 @@ Impl.prototype._createSingleBranches = function<T>(
               (v2): [string, Impl<T>] => {
                 return [
                   v1[0],
-                  <Impl<T>>empty<T>().updatingSubstate(v2[0], v2[1]),
+                  <Impl<T>>(
+                    empty<T>(this.substateSeparator).updatingSubstate(
+                      v2[0],
+                      v2[1]
+                    )
+                  ),
                 ];
               }
             );
@@ -245,7 +253,7 @@ Impl.prototype._createSingleBranches = function<T>(
     /// If the substateKey is undefined or null, we are on the uppermost level.
     return substateBranches
       .getOrElse([])
-      .map(v => empty<T>().updatingSubstate(v[0], v[1]))
+      .map(v => empty<T>(this.substateSeparator).updatingSubstate(v[0], v[1]))
       .map((v): [string, Type<T>] => ['', v]);
   }
 };
@@ -257,17 +265,22 @@ Impl.prototype.createSingleBranches = function<T>(): Type<T>[] {
 Impl.prototype.valuesWithFullPaths = function<T>(): JSObject<T> {
   let separator = this.substateSeparator;
 
-  let substateValues = Objects.entries(this.substate)
+  let substateValues = this._substate
+    .entries()
     .filter(([_key, substate]) => substate !== undefined && substate !== null)
     .map(([mainKey, substate]) => {
       let values = substate!.valuesWithFullPaths();
       let valueKeys = Object.keys(values);
+      let prefix = join([mainKey], separator);
 
       return valueKeys
-        .map(v1 => ({[`${mainKey}${separator}${v1}`]: values[v1]}))
+        .map(v1 => ({[`${prefix}${separator}${v1}`]: values[v1]}))
         .reduce((acc, v1) => Object.assign(acc, v1), {});
     })
     .reduce((acc, v) => Object.assign(acc, v), {});
 
-  return Object.assign(substateValues, this.values);
+  return this._values
+    .entries()
+    .map(([key, value]) => ({[join([key], separator)]: value}))
+    .reduce((acc, v) => Object.assign(acc, v), substateValues);
 };
@@ -0,0 +1,148 @@
+import {Impl, TraversalOptions, Type} from './state+main';
+import {join} from './state+path';
+import {fromState} from './state+utility';
+
+declare module './state+main' {
+  export interface Type<T> {
+    /**
+     * Lazily iterate over all values with their full paths, so that searches
+     * can stop at the first match without visiting the rest of the tree.
+     * Keys that contain the separator are escaped (see Path.join).
+     * @param {TraversalOptions} options Optional traversal options.
+     * @returns {IterableIterator<[string, T]>} An IterableIterator instance.
+     */
+    entries(options?: TraversalOptions): IterableIterator<[string, T]>;
+
+    /**
+     * Lazily iterate over all substates with their full paths.
+     * @param {TraversalOptions} options Optional traversal options.
+     * @returns {IterableIterator<[string, Type<T>]>} An IterableIterator
+     * instance.
+     */
+    substates(options?: TraversalOptions): IterableIterator<[string, Type<T>]>;
+
+    /**
+     * Lazily iterate over the full paths of all values.
+     * @param {TraversalOptions} options Optional traversal options.
+     * @returns {IterableIterator<string>} An IterableIterator instance.
+     */
+    paths(options?: TraversalOptions): IterableIterator<string>;
+  }
+}
+
+interface Node<T> {
+  readonly state: Impl<T>;
+  readonly keys: string[];
+  readonly depth: number;
+}
+
+/**
+ * Iterator that visits substates one at a time, and only reads the values of
+ * a substate when it is reached. Generators are not used because the library
+ * targets ES5.
+ * @template T Generics parameter.
+ * @template R Generics parameter.
+ */
+class TraversalIterator<T, R> implements IterableIterator<R> {
+  private readonly frontier: Node<T>[];
+  private readonly isBreadthFirst: boolean;
+  private readonly maxDepth: number;
+  private pending: R[];
+  private cursor: number;
+
+  public constructor(
+    state: Impl<T>,
+    options: TraversalOptions,
+    private readonly select: (node: Node<T>) => R[]
+  ) {
+    let maxDepth = options.maxDepth;
+    this.frontier = [{state, keys: [], depth: 0}];
+    this.isBreadthFirst = options.order === 'breadthFirst';
+    this.maxDepth = maxDepth !== undefined ? maxDepth : Infinity;
+    this.pending = [];
+    this.cursor = 0;
+  }
+
+  public next(): IteratorResult<R> {
+    while (this.cursor >= this.pending.length && this.frontier.length > 0) {
+      let node = this.isBreadthFirst
+        ? this.frontier.shift()!
+        : this.frontier.pop()!;
+
+      this.pending = this.select(node);
+      this.cursor = 0;
+
+      if (node.depth < this.maxDepth) {
+        let children = this.children(node);
+
+        /// The stack is popped from the end, so children are pushed in
+        /// reverse to be visited in order.
+        if (!this.isBreadthFirst) {
+          children.reverse();
+        }
+
+        this.frontier.push(...children);
+      }
+    }
+
+    if (this.cursor < this.pending.length) {
+      return {done: false, value: this.pending[this.cursor++]};
+    } else {
+      return {done: true, value: undefined as any};
+    }
+  }
+
+  public [Symbol.iterator](): IterableIterator<R> {
+    return this;
+  }
+
+  private children(node: Node<T>): Node<T>[] {
+    return node.state._substate
+      .entries()
+      .filter(([_key, substate]) => substate !== undefined && substate !== null)
+      .map(([key, substate]) => ({
+        state: fromState(substate!) as Impl<T>,
+        keys: node.keys.concat([key]),
+        depth: node.depth + 1,
+      }));
+  }
+}
+
+Impl.prototype.entries = function<T>(
+  options?: TraversalOptions
+): IterableIterator<[string, T]> {
+  let separator = this.substateSeparator;
+
+  return new TraversalIterator<T, [string, T]>(this, options || {}, node =>
+    node.state._values.entries().map(
+      ([key, value]): [string, T] => {
+        return [join(node.keys.concat([key]), separator), value!];
+      }
+    )
+  );
+};
+
+Impl.prototype.substates = function<T>(
+  options?: TraversalOptions
+): IterableIterator<[string, Type<T>]> {
+  let separator = this.substateSeparator;
+
+  return new TraversalIterator<T, [string, Type<T>]>(
+    this,
+    options || {},
+    node =>
+      node.depth > 0
+        ? [[join(node.keys, separator), node.state] as [string, Type<T>]]
+        : []
+  );
+};
+
+Impl.prototype.paths = function<T>(
+  options?: TraversalOptions
+): IterableIterator<string> {
+  let separator = this.substateSeparator;
+
+  return new TraversalIterator<T, string>(this, options || {}, node =>
+    node.state._values.keys().map(v => join(node.keys.concat([v]), separator))
+  );
+};
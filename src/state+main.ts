@@ -3,19 +3,44 @@ import {
   BuilderType,
   JSObject,
   Never,
-  Objects,
   Try,
   TryResult,
+  Undefined,
 } from 'javascriptutilities';
 
+import {hashEntry, hashValue, PersistentMap} from './persistent-map';
+import {KeyPath, defaultSeparator} from './state+path';
 import {builder} from './state+utility';
 
 export type UpdateFn<T> = (v: Try<T>) => TryResult<T>;
 export type Values<T> = JSObject<T>;
 export type Substate<T> = JSObject<Type<T>>;
 export type MapFn<T, R> = (value: T) => R;
+export type PathPredicate<T> = (path: string, value: T) => boolean;
+export type AsyncUpdateFn<T> = (v: Try<T>) => Promise<TryResult<T>>;
+export type AsyncMapFn<T, R> = (value: T, path: string) => Promise<R>;
+
+export interface AsyncMapOptions {
+  /**
+   * The maximum number of values that are mapped at the same time. Defaults
+   * to no limit. Values below 1 (after rounding down) and NaN are rejected.
+   */
+  readonly concurrency?: number;
+
+  /**
+   * If given, failed values are reported here and left out of the result.
+   * Otherwise, the first failure rejects the whole operation.
+   */
+  readonly onError?: (error: Error, path: string) => void;
+}
 export type StateType<T> = Type<T> | JSObject<T>;
 
+/**
+ * Check a value that is about to be stored at some path, and return the reason
+ * it is rejected, if any.
+ */
+export type ValueGuard = (keys: string[], value: any) => Undefined<string>;
+
 export type ForEach<T> = (
   k: string,
   value: Try<T>,
@@ -23,149 +48,178 @@ export type ForEach<T> = (
   level: number
 ) => void;
 
-export let valuesKey = 'values';
-export let substateKey = 'substate';
-
-/**
- * Represents a state object.
- * @extends {BuildableType<Builder<T>>} Buildable extension.
- * @template T Generics parameter.
- */
-export interface Type<T> extends BuildableType<Builder<T>> {
-  readonly values: Values<T>;
-  readonly substate: Substate<T>;
-  readonly substateSeparator: string;
-}
-
-/**
- * Represents a state object.
- * @implements {Type<T>} Type implementation.
- * @template T Generics parameter.
- */
-export class Impl<T> implements Type<T> {
-  public _values: Values<T>;
-  public _substate: Substate<T>;
-  public _substateSeparator: string;
-
-  public get values(): Values<T> {
-    return Object.assign({}, this._values);
-  }
-
-  public get valueKeys(): string[] {
-    return Object.keys(this._values);
-  }
-
-  public get substate(): Substate<T> {
-    return Object.assign({}, this._substate);
-  }
-
-  public get substateKeys(): string[] {
-    return Object.keys(this._substate);
-  }
-
-  public get substateSeparator(): string {
-    return this._substateSeparator;
-  }
-
-  public constructor() {
-    this._values = {};
-    this._substate = {};
-    this._substateSeparator = '.';
-  }
-
-  public builder = (): Builder<T> => builder();
-  public cloneBuilder = (): Builder<T> => this.builder().withBuildable(this);
+export type ValueComparator<T> = (v1: T, v2: T) => boolean;
 
+export interface EqualityOptions<T> {
   /**
-   * Set the current state values.
-   * @param {Values<T>} values A Values instance.
-   * @returns {this} The current State instance.
+   * How values are compared: 'strict' (the default) uses ===, 'deep' uses
+   * deepEquals, which also compares the contents of arrays, plain objects,
+   * Dates, Maps and Sets.
    */
-  public setValues(values: Never<Values<T>>): this {
-    this._values = values || {};
-    return this;
-  }
+  readonly valueComparator?: 'strict' | 'deep' | ValueComparator<T>;
 
   /**
-   * Set the current substates.
-   * @param {Never<Substate<T>>} substate A Substate instance.
-   * @returns {this} The current State instance.
+   * Full paths or patterns (see query) of values and substates that are not
+   * compared.
    */
-  public setSubstates(substate: Never<Substate<T>>): this {
-    this._substate = substate || {};
-    return this;
-  }
+  readonly ignorePaths?: KeyPath[];
 
   /**
-   * Set the substate separator.
-   * @param {string} separator A string value.
-   * @returns {this} The current State instance.
+   * If true, values (and plain object properties, with the deep comparator)
+   * that are missing on one side are compared as undefined, instead of being
+   * unequal right away.
    */
-  public setSubstateSeparator(separator: string): this {
-    this._substateSeparator = separator;
-    return this;
-  }
+  readonly treatMissingAsUndefined?: boolean;
+}
+
+export type TraversalOrder = 'depthFirst' | 'breadthFirst';
 
+export interface TraversalOptions {
   /**
-   * Update the current state values.
-   * @param {string} key A string value.
-   * @param {T} value T object.
-   * @returns {this} The current State instance.
+   * Defaults to depthFirst, i.e. the values of a substate come right before
+   * its own substates, like in forEach.
    */
-  public setValue(key: string, value: T): this {
-    this._values[key] = value;
-    return this;
-  }
+  readonly order?: TraversalOrder;
 
   /**
-   * Remove some value from the current state.
-   * @param {string} key A string value.
-   * @returns {this} The current State instance.
+   * The deepest substate level to visit. 0 means that only the current state
+   * is visited. Defaults to no limit.
    */
-  public removeValue(key: string): this {
-    let oldValues = this._values;
-    let entries = Objects.entries(oldValues).filter(v => v[0] !== key);
+  readonly maxDepth?: number;
+}
 
-    this._values = entries
-      .map(v => ({[v[0]]: v[1]}))
-      .reduce((v1, v2) => Object.assign({}, v1, v2), {});
+export type ValueChange<T> =
+  | {type: 'valueAdded'; path: string; value: T}
+  | {type: 'valueRemoved'; path: string; value: T}
+  | {type: 'valueChanged'; path: string; oldValue: T; newValue: T};
+
+export type SubstateChange<T> =
+  | {type: 'substateAdded'; path: string; substate: Type<T>}
+  | {type: 'substateRemoved'; path: string; substate: Type<T>};
+
+export type Change<T> = ValueChange<T> | SubstateChange<T>;
+
+export type PatchOperation =
+  | {op: 'add'; path: string; value: any}
+  | {op: 'remove'; path: string}
+  | {op: 'replace'; path: string; value: any}
+  | {op: 'move'; from: string; path: string}
+  | {op: 'copy'; from: string; path: string}
+  | {op: 'test'; path: string; value: any};
+
+export type MergeStrategy<T> =
+  | 'preferLeft'
+  | 'preferRight'
+  | 'throwOnConflict'
+  | ((path: string, left: T, right: T) => Never<T>);
+
+export type MergeConflict<T> = {path: string; left: T; right: T};
+
+export type MergeOptions<T> = {
+  strategy?: MergeStrategy<T>;
+  equalFn?: (v1: T, v2: T) => boolean;
+};
+
+export type MergeResult<T> = {state: Type<T>; conflicts: MergeConflict<T>[]};
+
+export type Merge3Conflict<T> =
+  | {
+      type: 'value';
+      path: string;
+      base: Try<T>;
+      ours: Try<T>;
+      theirs: Try<T>;
+    }
+  | {
+      type: 'move';
+      path: string;
+      movedTo: string;
+      movedBy: 'ours' | 'theirs';
+    };
 
-    return this;
-  }
+export type Merge3Result<T> = {state: Type<T>; conflicts: Merge3Conflict<T>[]};
 
-  /**
-   * Update the current substates.
-   * @param {string} key A string value.
-   * @param {Type<T>} ss A Type instance.
-   * @returns {this} The current State instance.
-   */
-  public setSubstate(key: string, ss: Type<T>): this {
-    this._substate[key] = ss;
-    return this;
+export let valuesKey = 'values';
+export let substateKey = 'substate';
+
+/**
+ * Nodes created while a mutation session is running. These nodes are not yet
+ * reachable from any state outside the session, so they can be updated in
+ * place instead of being copied on every change.
+ */
+let ownedNodes: Undefined<Set<Impl<any>>>;
+
+/**
+ * Nodes owned by the outer sessions of the ongoing one, innermost last. They
+ * may still be updated in place once the inner session ends, so they must be
+ * released before being shared with a node created in the inner session.
+ */
+let enclosingNodes: Set<Impl<any>>[] = [];
+
+/**
+ * Find the session that owns some node, if any.
+ * @param {Impl<any>} node An Impl instance.
+ * @returns {Undefined<Set<Impl<any>>>} The nodes owned by that session.
+ */
+function ownerOf(node: Impl<any>): Undefined<Set<Impl<any>>> {
+  return [ownedNodes]
+    .concat(enclosingNodes)
+    .filter(nodes => nodes !== undefined && nodes.has(node))[0];
+}
+
+/**
+ * Check if a mutation session is running.
+ * @returns {boolean} A boolean value.
+ */
+export function isMutating(): boolean {
+  return ownedNodes !== undefined;
+}
+
+/**
+ * Run some function within a new mutation session. Nodes created during the
+ * session may be updated in place, while nodes that existed before are still
+ * copied on first write, so previous states are never affected. This also
+ * applies to nodes owned by an outer session, if any.
+ * @template R Generics parameter.
+ * @param {() => R} fn The function to run.
+ * @returns {R} R object.
+ */
+export function mutating<R>(fn: () => R): R {
+  let previous = ownedNodes;
+
+  if (previous !== undefined) {
+    enclosingNodes.push(previous);
   }
 
-  /**
-   * Remove some substate from the current substates.
-   * @param {string} key A string value.
-   * @returns {this} The current State instance.
-   */
-  public removeSubState(key: string): this {
-    let oldSS = this._substate;
-    let entries = Objects.entries(oldSS).filter(v => v[0] !== key);
+  ownedNodes = new Set();
 
-    this._substate = entries
-      .map(v => ({[v[0]]: v[1]}))
-      .reduce((v1, v2) => Object.assign({}, v1, v2), {});
+  try {
+    return fn();
+  } finally {
+    if (previous !== undefined) {
+      enclosingNodes.pop();
+    }
 
-    return this;
+    ownedNodes = previous;
   }
 }
 
+/**
+ * Represents a state object.
+ * @extends {BuildableType<Builder<T>>} Buildable extension.
+ * @template T Generics parameter.
+ */
+export interface Type<T> extends BuildableType<Builder<T>> {
+  readonly values: Values<T>;
+  readonly substate: Substate<T>;
+  readonly substateSeparator: string;
+}
+
 export class Builder<T> implements BuilderType<Type<T>> {
   private state: Impl<T>;
 
-  public constructor() {
-    this.state = new Impl();
+  public constructor(state?: Impl<T>) {
+    this.state = state || new Impl();
   }
 
   /**
@@ -198,6 +252,16 @@ export class Builder<T> implements BuilderType<Type<T>> {
     return this;
   }
 
+  /**
+   * Replace the guard that checks values before they are updated.
+   * @param {Undefined<ValueGuard>} guard A ValueGuard instance.
+   * @returns {this} The current Builder instance.
+   */
+  public withValueGuard(guard: Undefined<ValueGuard>): this {
+    this.state.setValueGuard(guard);
+    return this;
+  }
+
   /**
    * Update the current state values with a mapping function.
    * @param {string} id A string value.
@@ -252,7 +316,21 @@ export class Builder<T> implements BuilderType<Type<T>> {
    * @returns {this} The current Builder instance.
    */
   public withBuildable(buildable: Never<Type<T>>): this {
-    if (buildable !== undefined && buildable !== null) {
+    if (buildable instanceof Impl) {
+      /// The substates of a draft become reachable from two states, so they
+      /// must not be updated in place anymore, whichever session owns them.
+      if (buildable !== this.state) {
+        buildable.disownSubstates();
+      }
+
+      /// The underlying maps are immutable, so they can be shared as they are.
+      this.state._values = buildable._values;
+      this.state._substate = buildable._substate;
+
+      return this.withSubstateSeparator(
+        buildable.substateSeparator
+      ).withValueGuard(buildable._valueGuard);
+    } else if (buildable !== undefined && buildable !== null) {
       return this.withValues(buildable.values)
         .withSubstate(buildable.substate)
         .withSubstateSeparator(buildable.substateSeparator);
@@ -265,3 +343,226 @@ export class Builder<T> implements BuilderType<Type<T>> {
     return this.state;
   }
 }
+
+/**
+ * Represents a state object.
+ * @implements {Type<T>} Type implementation.
+ * @template T Generics parameter.
+ */
+export class Impl<T> implements Type<T> {
+  /**
+   * Hash a substate for the content hash of its parent's substate map.
+   * @param {Type<any>} ss A Type instance.
+   * @returns {number} A number value.
+   */
+  private static hashSubstate(ss: Type<any>): number {
+    return ss instanceof Impl ? ss.contentHash : hashValue(ss);
+  }
+
+  public _values: PersistentMap<T>;
+  public _substate: PersistentMap<Type<T>>;
+  public _substateSeparator: string;
+  public _valueGuard: Undefined<ValueGuard>;
+
+  public get values(): Values<T> {
+    return this._values.toObject();
+  }
+
+  public get valueKeys(): string[] {
+    return this._values.keys();
+  }
+
+  public get substate(): Substate<T> {
+    return this._substate.toObject();
+  }
+
+  public get substateKeys(): string[] {
+    return this._substate.keys();
+  }
+
+  public get substateSeparator(): string {
+    return this._substateSeparator;
+  }
+
+  /**
+   * The structural hash of the current state, as kept up to date by its
+   * maps. Substates that are updated in place during a mutation session are
+   * only rehashed in their parent once they are disowned.
+   */
+  public get contentHash(): number {
+    return hashEntry(
+      String(this._values.contentHash),
+      this._substate.contentHash
+    );
+  }
+
+  public constructor() {
+    this._values = PersistentMap.empty();
+    this._substate = PersistentMap.empty(Impl.hashSubstate);
+    this._substateSeparator = defaultSeparator;
+
+    if (ownedNodes !== undefined) {
+      ownedNodes.add(this);
+    }
+  }
+
+  public builder = (): Builder<T> => builder();
+  public cloneBuilder = (): Builder<T> => this.builder().withBuildable(this);
+
+  /**
+   * Get a Builder that updates the current state in place if it was created
+   * within the ongoing mutation session, or a copy of it otherwise.
+   * @returns {Builder<T>} A Builder instance.
+   */
+  public editingBuilder(): Builder<T> {
+    if (this.isOwned()) {
+      return new Builder(this);
+    } else {
+      return this.cloneBuilder();
+    }
+  }
+
+  /**
+   * Write some state derived from the current state back into the latter if
+   * it was created within the ongoing mutation session, so that transforms
+   * that are not built on editingBuilder still update drafts in place.
+   * @param {Type<T>} state A Type instance.
+   * @returns {Type<T>} A Type instance.
+   */
+  public adopting(state: Type<T>): Type<T> {
+    if (this.isOwned() && state !== this) {
+      return new Builder(this).withBuildable(state).build();
+    } else {
+      return state;
+    }
+  }
+
+  /**
+   * Check if the current state was created within the ongoing mutation
+   * session, i.e. if it may be updated in place.
+   * @returns {boolean} A boolean value.
+   */
+  public isOwned(): boolean {
+    return ownedNodes !== undefined && ownedNodes.has(this);
+  }
+
+  /**
+   * Release the current state and its substates from the mutation session
+   * that owns them, ongoing or enclosing, and freeze them, so that they are
+   * copied on write again. This must be done when a node becomes reachable
+   * from more than one place, or when the session is committed.
+   */
+  public disown(): void {
+    let owner = ownerOf(this);
+
+    if (owner !== undefined) {
+      this.disownSubstates();
+      owner.delete(this);
+      Object.freeze(this);
+    }
+  }
+
+  /**
+   * Release the substates of the current state from the mutation sessions
+   * that own them. They may have been updated in place since they were
+   * stored, so they are stored again with their final hashes. Nodes that no
+   * session owns are left alone, since they may be frozen.
+   */
+  public disownSubstates(): void {
+    if (ownerOf(this) === undefined) {
+      return;
+    }
+
+    this._substate.entries().forEach(([key, ss]) => {
+      if (ss instanceof Impl && ownerOf(ss) !== undefined) {
+        ss.disown();
+        this._substate = this._substate.set(key, ss);
+      }
+    });
+  }
+
+  /**
+   * Set the current state values.
+   * @param {Values<T>} values A Values instance.
+   * @returns {this} The current State instance.
+   */
+  public setValues(values: Never<Values<T>>): this {
+    this._values = PersistentMap.fromObject(values || {});
+    return this;
+  }
+
+  /**
+   * Set the current substates.
+   * @param {Never<Substate<T>>} substate A Substate instance.
+   * @returns {this} The current State instance.
+   */
+  public setSubstates(substate: Never<Substate<T>>): this {
+    this._substate = PersistentMap.fromObject(
+      substate || {},
+      Impl.hashSubstate
+    );
+    return this;
+  }
+
+  /**
+   * Set the substate separator.
+   * @param {string} separator A string value.
+   * @returns {this} The current State instance.
+   */
+  public setSubstateSeparator(separator: string): this {
+    this._substateSeparator = separator;
+    return this;
+  }
+
+  /**
+   * Set the guard that checks values before they are updated.
+   * @param {Undefined<ValueGuard>} guard A ValueGuard instance.
+   * @returns {this} The current State instance.
+   */
+  public setValueGuard(guard: Undefined<ValueGuard>): this {
+    this._valueGuard = guard;
+    return this;
+  }
+
+  /**
+   * Update the current state values.
+   * @param {string} key A string value.
+   * @param {T} value T object.
+   * @returns {this} The current State instance.
+   */
+  public setValue(key: string, value: T): this {
+    this._values = this._values.set(key, value);
+    return this;
+  }
+
+  /**
+   * Remove some value from the current state.
+   * @param {string} key A string value.
+   * @returns {this} The current State instance.
+   */
+  public removeValue(key: string): this {
+    this._values = this._values.remove(key);
+    return this;
+  }
+
+  /**
+   * Update the current substates.
+   * @param {string} key A string value.
+   * @param {Type<T>} ss A Type instance.
+   * @returns {this} The current State instance.
+   */
+  public setSubstate(key: string, ss: Type<T>): this {
+    this._substate = this._substate.set(key, ss);
+    return this;
+  }
+
+  /**
+   * Remove some substate from the current substates.
+   * @param {string} key A string value.
+   * @returns {this} The current State instance.
+   */
+  public removeSubState(key: string): this {
+    this._substate = this._substate.remove(key);
+    return this;
+  }
+}
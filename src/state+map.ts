@@ -1,17 +1,37 @@
-import {Collections, Try} from 'javascriptutilities';
-import {Impl, MapFn, Type, UpdateFn} from './state+main';
-import {empty} from './state+utility';
+import {Collections, JSObject, Try} from 'javascriptutilities';
+import {
+  AsyncMapFn,
+  AsyncMapOptions,
+  AsyncUpdateFn,
+  Impl,
+  MapFn,
+  PathPredicate,
+  Type,
+  UpdateFn,
+} from './state+main';
+import {KeyPath, join} from './state+path';
+import {
+  empty,
+  fromState,
+  isContainer,
+  pathSegments,
+  pathString,
+  updateInContainer,
+} from './state+utility';
 
 declare module './state+main' {
   export interface Type<T> {
     /**
      * Map the value at some node to another value using a mapper function, and
-     * create whatever substate that is not present.
-     * @param {string} id A string value.
+     * create whatever substate that is not present. Paths that point into an
+     * array/plain object value (e.g. todos.0.title or todos[0].title) update
+     * a copy of that value instead. If the state has a value guard (e.g. from
+     * a strict schema), values it rejects throw an error.
+     * @param {KeyPath} id A KeyPath instance.
      * @param {UpdateFn<T>} fn Selector function.
      * @returns {Type<T>} A Type instance.
      */
-    mappingValue(id: string, fn: UpdateFn<T>): Type<T>;
+    mappingValue(id: KeyPath, fn: UpdateFn<T>): Type<T>;
 
     /**
      * Map all values in the current state to a different type.
@@ -19,38 +39,180 @@ declare module './state+main' {
      * @returns {Type<R>} A Type instance.
      */
     mappingEach<R>(selector: MapFn<T, R>): Type<R>;
+
+    /**
+     * Same as mappingValue, but with a mapper function that returns a
+     * Promise. The result is based on the current state, so updates made
+     * elsewhere in the meantime are not included.
+     * @param {KeyPath} id A KeyPath instance.
+     * @param {AsyncUpdateFn<T>} fn Selector function.
+     * @returns {Promise<Type<T>>} A Promise instance.
+     */
+    mappingValueAsync(id: KeyPath, fn: AsyncUpdateFn<T>): Promise<Type<T>>;
+
+    /**
+     * Same as mappingEach, but with a mapper function that returns a Promise
+     * and also receives the full path of each value. Values keep their full
+     * paths and the separator of the current state.
+     * @template R Generics parameter.
+     * @param {AsyncMapFn<T, R>} fn Selector function.
+     * @param {AsyncMapOptions} options Optional concurrency and error
+     * handling options.
+     * @returns {Promise<Type<R>>} A Promise instance.
+     */
+    mappingEachAsync<R>(
+      fn: AsyncMapFn<T, R>,
+      options?: AsyncMapOptions
+    ): Promise<Type<R>>;
+
+    /**
+     * Keep only the values that match some predicate, which receives the full
+     * path (see valuesWithFullPaths) and value. The substate structure is
+     * kept, even for substates whose values are all removed.
+     * @param {PathPredicate<T>} predicate Predicate function.
+     * @returns {Type<T>} A Type instance.
+     */
+    filteringValues(predicate: PathPredicate<T>): Type<T>;
+
+    /**
+     * Fold all values into a single result, visiting them depth first.
+     * @template R Generics parameter.
+     * @param {(acc: R, path: string, value: T) => R} fn Reducer function.
+     * @param {R} seed The initial result.
+     * @returns {R} The final result.
+     */
+    reducingValues<R>(fn: (acc: R, path: string, value: T) => R, seed: R): R;
+
+    /**
+     * Find the first value that matches some predicate, without visiting the
+     * rest of the tree.
+     * @param {PathPredicate<T>} predicate Predicate function.
+     * @returns {Try<[string, T]>} A Try instance that contains the full path
+     * and value.
+     */
+    findingValue(predicate: PathPredicate<T>): Try<[string, T]>;
+
+    /**
+     * Check if any value matches some predicate.
+     * @param {PathPredicate<T>} predicate Predicate function.
+     * @returns {boolean} A boolean value.
+     */
+    someValue(predicate: PathPredicate<T>): boolean;
+
+    /**
+     * Check if all values match some predicate.
+     * @param {PathPredicate<T>} predicate Predicate function.
+     * @returns {boolean} A boolean value.
+     */
+    everyValue(predicate: PathPredicate<T>): boolean;
+
+    /**
+     * Split the current state into the values that match some predicate and
+     * those that do not. Both states keep the substate structure.
+     * @param {PathPredicate<T>} predicate Predicate function.
+     * @returns {[Type<T>, Type<T>]} The matching and non-matching states.
+     */
+    partitioningValues(predicate: PathPredicate<T>): [Type<T>, Type<T>];
+
+    /**
+     * Count the values in each group produced by some function.
+     * @param {(path: string, value: T) => string} fn Grouping function.
+     * @returns {JSObject<number>} A JSObject instance.
+     */
+    countingBy(fn: (path: string, value: T) => string): JSObject<number>;
   }
 
-  export interface Impl<T> extends Type<T> {}
+  export interface Impl<T> extends Type<T> {
+    /**
+     * Map the value at some node without checking the value guard.
+     * @param {KeyPath} id A KeyPath instance.
+     * @param {UpdateFn<T>} fn Selector function.
+     * @returns {Type<T>} A Type instance.
+     */
+    _mappingValue(id: KeyPath, fn: UpdateFn<T>): Type<T>;
+
+    _filteringValues(predicate: PathPredicate<T>, keys: string[]): Type<T>;
+  }
 }
 
 Impl.prototype.mappingValue = function<T>(
-  id: string,
+  id: KeyPath,
   fn: UpdateFn<T>
 ): Type<T> {
+  let guard = this._valueGuard;
+
+  if (guard === undefined) {
+    return this._mappingValue(id, fn);
+  }
+
+  /// The guard needs the new value, so the mapper function is evaluated here,
+  /// once, and its result is stored as it is.
   let separator = this.substateSeparator;
-  let separated = id.split(separator);
-  let length = separated.length;
+  let keys = pathSegments(id, separator);
+  let path = pathString(id, separator);
+  let value = Try.evaluate(() => fn(this.valueAtNode(keys))).value;
+  let message = guard(keys, value);
+
+  if (message !== undefined) {
+    throw new Error(`${message} at ${path}`);
+  }
+
+  return this._mappingValue(id, () =>
+    Try.unwrap(value, `No value found at ${path}`)
+  );
+};
+
+Impl.prototype._mappingValue = function<T>(
+  id: KeyPath,
+  fn: UpdateFn<T>
+): Type<T> {
+  let separator = this.substateSeparator;
+  let separated = pathSegments(id, separator);
   let first = Collections.first(separated);
 
-  if (length === 1) {
+  if (separated.length === 1) {
     return first
       .map(v =>
-        this.cloneBuilder()
+        this.editingBuilder()
           .updateValueWithFunction(v, fn)
           .build()
       )
       .getOrElse(this);
+  } else if (
+    first
+      .filter(
+        v => !this._substate.has(v),
+        `Substate found at ${pathString(id, separator)}`
+      )
+      .map(v => isContainer(this._values.get(v)))
+      .getOrElse(false)
+  ) {
+    let keys = separated.slice(1);
+
+    return first
+      .map(v => {
+        let container = updateInContainer(this._values.get(v), keys, fn);
+
+        return this.editingBuilder()
+          .updateValue(v, container)
+          .build();
+      })
+      .getOrElse(this);
   } else {
-    let subId = Try.evaluate(() => separated.slice(1, length).join(separator));
-    let substate = first
-      .flatMap(v => this.substateAtNode(v))
-      .getOrElse(empty());
+    let existing = first.flatMap(v => this.substateAtNode([v]));
+    let substate = existing.getOrElse(empty(separator));
+    let updated = substate.mappingValue(separated.slice(1), fn);
 
     return first
-      .zipWith(subId.map(v => substate.mappingValue(v, fn)), (v1, v2) => {
-        return this.cloneBuilder()
-          .updateSubstate(v1, v2)
+      .map(v => {
+        /// The substate is returned as it is if nothing could be updated, or
+        /// if it was updated in place by the ongoing mutation session.
+        if (updated === existing.value) {
+          return this;
+        }
+
+        return this.editingBuilder()
+          .updateSubstate(v, updated)
           .build();
       })
       .getOrElse(this);
@@ -59,15 +221,197 @@ Impl.prototype.mappingValue = function<T>(
 
 Impl.prototype.mappingEach = function<T, R>(selector: MapFn<T, R>): Type<R> {
   let separator = this.substateSeparator;
-  let state = empty<R>();
+  let state = empty<R>(separator);
 
   this.forEach((k, v, ss, _l) => {
     try {
       let newValue = v.map(v1 => selector(v1));
-      let fullPath = ss.map(v1 => v1 + separator).getOrElse('') + k;
+      let prefix = ss.map(v1 => v1 + separator).getOrElse('');
+      let fullPath = prefix + join([k], separator);
       state = state.updatingValue(fullPath, newValue.value);
     } catch {}
   });
 
   return state;
 };
+
+Impl.prototype.mappingValueAsync = function<T>(
+  id: KeyPath,
+  fn: AsyncUpdateFn<T>
+): Promise<Type<T>> {
+  return Promise.resolve()
+    .then(() => fn(this.valueAtNode(id)))
+    .then(v => this.mappingValue(id, () => v));
+};
+
+Impl.prototype.mappingEachAsync = function<T, R>(
+  fn: AsyncMapFn<T, R>,
+  options?: AsyncMapOptions
+): Promise<Type<R>> {
+  let {concurrency = Infinity, onError} = options || ({} as AsyncMapOptions);
+  let entries = this.reducingValues<[string, T][]>(
+    (acc, k, v) => acc.concat([[k, v]]),
+    []
+  );
+
+  let limit = Math.floor(concurrency);
+
+  /// NaN would never let any value start, so the promise would never settle.
+  if (!(limit >= 1)) {
+    return Promise.reject(new Error(`Invalid concurrency ${concurrency}`));
+  }
+
+  let results: [string, R][] = [];
+  let next = 0;
+  let active = 0;
+  let isRejected = false;
+
+  return new Promise<Type<R>>((resolve, reject) => {
+    let settle = () => {
+      if (!isRejected && next === entries.length && active === 0) {
+        let state = empty<R>(this.substateSeparator);
+
+        resolve(
+          state.withMutations(draft => {
+            results
+              .filter(v => v !== undefined)
+              .forEach(([k, v]) => draft.updatingValue(k, v));
+          })
+        );
+      }
+    };
+
+    let launch = () => {
+      while (!isRejected && active < limit && next < entries.length) {
+        let index = next++;
+        let [path, value] = entries[index];
+        active += 1;
+
+        Promise.resolve()
+          .then(() => fn(value, path))
+          .then(
+            v => {
+              results[index] = [path, v];
+            },
+            e => {
+              if (onError !== undefined) {
+                onError(e, path);
+              } else {
+                isRejected = true;
+                reject(e);
+              }
+            }
+          )
+          .then(() => {
+            active -= 1;
+            launch();
+            settle();
+          })
+          .catch(reject);
+      }
+    };
+
+    launch();
+    settle();
+  });
+};
+
+Impl.prototype._filteringValues = function<T>(
+  predicate: PathPredicate<T>,
+  keys: string[]
+): Type<T> {
+  let separator = this.substateSeparator;
+  let builder = this.editingBuilder();
+  let isChanged = false;
+
+  this._values.entries().forEach(([key, value]) => {
+    if (!predicate(join(keys.concat([key]), separator), value!)) {
+      builder.updateValue(key, undefined);
+      isChanged = true;
+    }
+  });
+
+  this._substate.entries().forEach(([key, substate]) => {
+    if (substate !== undefined && substate !== null) {
+      let current = fromState(substate) as Impl<T>;
+      let filtered = current._filteringValues(predicate, keys.concat([key]));
+
+      if (filtered !== current) {
+        builder.updateSubstate(key, filtered);
+        isChanged = true;
+      }
+    }
+  });
+
+  return isChanged ? builder.build() : this;
+};
+
+Impl.prototype.filteringValues = function<T>(
+  predicate: PathPredicate<T>
+): Type<T> {
+  return this._guardingChanges(state => state._filteringValues(predicate, []));
+};
+
+Impl.prototype.reducingValues = function<T, R>(
+  fn: (acc: R, path: string, value: T) => R,
+  seed: R
+): R {
+  let iterator = this.entries();
+  let result = seed;
+
+  for (let next = iterator.next(); !next.done; next = iterator.next()) {
+    result = fn(result, next.value[0], next.value[1]);
+  }
+
+  return result;
+};
+
+Impl.prototype.findingValue = function<T>(
+  predicate: PathPredicate<T>
+): Try<[string, T]> {
+  let iterator = this.entries();
+
+  for (let next = iterator.next(); !next.done; next = iterator.next()) {
+    if (predicate(next.value[0], next.value[1])) {
+      return Try.success(next.value);
+    }
+  }
+
+  return Try.failure('No matching value found');
+};
+
+Impl.prototype.someValue = function<T>(predicate: PathPredicate<T>): boolean {
+  return this.findingValue(predicate).isSuccess();
+};
+
+Impl.prototype.everyValue = function<T>(predicate: PathPredicate<T>): boolean {
+  return this.findingValue((k, v) => !predicate(k, v)).isFailure();
+};
+
+Impl.prototype.partitioningValues = function<T>(
+  predicate: PathPredicate<T>
+): [Type<T>, Type<T>] {
+  let matches: JSObject<boolean> = {};
+
+  /// Filtering a draft updates it in place, so each side filters a copy.
+  let source = (): Type<T> =>
+    this.isOwned() ? this.cloneBuilder().build() : this;
+
+  let matching = source().filteringValues((k, v) => {
+    let isMatch = predicate(k, v);
+    matches[k] = isMatch;
+    return isMatch;
+  });
+
+  return [matching, source().filteringValues(k => matches[k] === false)];
+};
+
+Impl.prototype.countingBy = function<T>(
+  fn: (path: string, value: T) => string
+): JSObject<number> {
+  return this.reducingValues<JSObject<number>>((acc, k, v) => {
+    let group = fn(k, v);
+    acc[group] = (acc[group] || 0) + 1;
+    return acc;
+  }, {});
+};
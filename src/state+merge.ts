@@ -0,0 +1,297 @@
+import {Never, Objects, Try} from 'javascriptutilities';
+
+import {
+  Impl,
+  Merge3Conflict,
+  Merge3Result,
+  MergeConflict,
+  MergeOptions,
+  MergeResult,
+  StateType,
+  Type,
+} from './state+main';
+
+import {join} from './state+path';
+import {fromKeyValue, fromState} from './state+utility';
+
+declare module './state+main' {
+  export interface Type<T> {
+    /**
+     * Recursively merge another state into the current state. Values and
+     * substates that are present on only one side are kept, while values that
+     * are present on both sides but are not equal (strict equality by
+     * default) are conflicts, resolved with the specified strategy:
+     * - preferLeft keeps the current value.
+     * - preferRight (the default) takes the other value.
+     * - throwOnConflict throws an error listing all conflicting paths.
+     * - a function receives the path and both values, and returns the value
+     *   to keep (or nothing to remove it).
+     * @param {Never<StateType<T>>} state A StateType instance.
+     * @param {Never<MergeOptions<T>>} options Optional merge options.
+     * @returns {MergeResult<T>} The merged state and the conflicts found.
+     */
+    merging(
+      state: Never<StateType<T>>,
+      options?: Never<MergeOptions<T>>
+    ): MergeResult<T>;
+  }
+
+  export interface Impl<T> extends Type<T> {
+    _merging(
+      state: Impl<T>,
+      keys: string[],
+      options: MergeOptions<T>,
+      conflicts: MergeConflict<T>[]
+    ): Type<T>;
+  }
+}
+
+Impl.prototype._merging = function<T>(
+  state: Impl<T>,
+  keys: string[],
+  options: MergeOptions<T>,
+  conflicts: MergeConflict<T>[]
+): Type<T> {
+  let separator = this.substateSeparator;
+  let {
+    strategy = 'preferRight',
+    equalFn = (v1: T, v2: T) => v1 === v2,
+  } = options;
+  let builder = this.cloneBuilder();
+  let isChanged = false;
+
+  state._values.entries().forEach(([key, right]) => {
+    let left = this._values.get(key);
+    let value: Never<T> = right;
+
+    if (left === undefined || left === null) {
+      isChanged = true;
+    } else if (equalFn(left, right)) {
+      return;
+    } else {
+      let path = join(keys.concat([key]), separator);
+      conflicts.push({path, left, right});
+
+      if (typeof strategy === 'function') {
+        value = strategy(path, left, right);
+      } else if (strategy !== 'preferRight') {
+        value = left;
+      }
+
+      isChanged = isChanged || value !== left;
+    }
+
+    builder.updateValue(key, value);
+  });
+
+  state._substate.entries().forEach(([key, right]) => {
+    let left = this._substate.get(key);
+    let substate: Type<T>;
+
+    if (left === undefined || left === null) {
+      substate = fromState(right, separator);
+    } else if (left === right) {
+      return;
+    } else {
+      let lhs = fromState(left) as Impl<T>;
+      let rhs = fromState(right) as Impl<T>;
+      substate = lhs._merging(rhs, keys.concat([key]), options, conflicts);
+    }
+
+    isChanged = isChanged || substate !== left;
+    builder.updateSubstate(key, substate);
+  });
+
+  return isChanged ? builder.build() : this;
+};
+
+Impl.prototype.merging = function<T>(
+  state: Never<StateType<T>>,
+  options?: Never<MergeOptions<T>>
+): MergeResult<T> {
+  let other = fromKeyValue(state) as Impl<T>;
+  let conflicts: MergeConflict<T>[] = [];
+
+  /// The substates of the other state may end up in both states.
+  other.disownSubstates();
+
+  let merged = this._guardingChanges(current => {
+    let result = current._merging(other, [], options || {}, conflicts);
+
+    if (
+      options &&
+      options.strategy === 'throwOnConflict' &&
+      conflicts.length > 0
+    ) {
+      let paths = conflicts.map(v => v.path).join(', ');
+      throw new Error(`Conflicting values at ${paths}`);
+    }
+
+    return result;
+  });
+
+  return {state: merged, conflicts};
+};
+
+/**
+ * Get all non-empty substates with their full paths, parents first.
+ * @template T Generics parameter.
+ * @param {Type<T>} state A Type instance.
+ * @param {string[]} keys The path of the state.
+ * @param {[string, Type<T>][]} result The substates found so far.
+ * @returns {[string, Type<T>][]} An Array of paths and substates.
+ */
+function substatesWithFullPaths<T>(
+  state: Type<T>,
+  keys: string[],
+  result: [string, Type<T>][] = []
+): [string, Type<T>][] {
+  let separator = state.substateSeparator;
+
+  Objects.entries(state.substate).forEach(([key, substate]) => {
+    if (substate !== undefined && substate !== null) {
+      let path = keys.concat([key]);
+
+      if (substate.hasValues() || substate.hasSubstate()) {
+        result.push([join(path, separator), substate]);
+      }
+
+      substatesWithFullPaths(substate, path, result);
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Find the substates of the base state that one side moved elsewhere. A
+ * substate is considered moved if it is gone from its path, and an equal
+ * substate appears at a path that did not exist in the base state.
+ * @template T Generics parameter.
+ * @param {Type<T>} base A Type instance.
+ * @param {Type<T>} side A Type instance.
+ * @returns {[string, string][]} An Array of old and new paths.
+ */
+function findMoves<T>(base: Type<T>, side: Type<T>): [string, string][] {
+  let separator = base.substateSeparator;
+
+  let added = substatesWithFullPaths(side, []).filter(([path]) =>
+    base.substateAtNode(path).isFailure()
+  );
+
+  let moves: [string, string][] = [];
+
+  substatesWithFullPaths(base, []).forEach(([path, substate]) => {
+    let isMoved = moves.some(([v]) => path.indexOf(v + separator) === 0);
+
+    if (!isMoved && side.substateAtNode(path).isFailure()) {
+      let target = added.filter(([_v, v1]) => substate.equals(v1))[0];
+
+      if (target !== undefined) {
+        moves.push([path, target[0]]);
+      }
+    }
+  });
+
+  return moves;
+}
+
+/**
+ * Merge two states that were both derived from a base state. Values are
+ * compared by full path, so that changes made on only one side are applied
+ * automatically, while values changed differently on both sides are
+ * reported as conflicts. Substates that one side moved while the other side
+ * edited them are reported as move conflicts. Conflicting paths keep our
+ * version.
+ * @template T Generics parameter.
+ * @param {Never<StateType<T>>} base A StateType instance.
+ * @param {Never<StateType<T>>} ours A StateType instance.
+ * @param {Never<StateType<T>>} theirs A StateType instance.
+ * @param {Never<MergeOptions<T>>} options Optional merge options; only the
+ * compare function is used.
+ * @returns {Merge3Result<T>} The merged state and the conflicts found.
+ */
+export function merge3<T>(
+  base: Never<StateType<T>>,
+  ours: Never<StateType<T>>,
+  theirs: Never<StateType<T>>,
+  options?: Never<MergeOptions<T>>
+): Merge3Result<T> {
+  let baseState: Type<T> = fromKeyValue(base);
+  let ourState: Type<T> = fromKeyValue(ours);
+  let theirState: Type<T> = fromKeyValue(theirs);
+  let separator = ourState.substateSeparator;
+  let equalFn = (options && options.equalFn) || ((v1: T, v2: T) => v1 === v2);
+  let conflicts: Merge3Conflict<T>[] = [];
+  let excluded: string[] = [];
+
+  [
+    {movedBy: 'ours' as 'ours', mover: ourState, editor: theirState},
+    {movedBy: 'theirs' as 'theirs', mover: theirState, editor: ourState},
+  ].forEach(({movedBy, mover, editor}) => {
+    findMoves(baseState, mover).forEach(([path, movedTo]) => {
+      let original = baseState.substateAtNode(path);
+
+      let isEdited = editor
+        .substateAtNode(path)
+        .zipWith(original, (v1, v2) => !v1.equals(v2))
+        .getOrElse(false);
+
+      if (isEdited) {
+        conflicts.push({type: 'move', path, movedTo, movedBy});
+        excluded.push(path, movedTo);
+      }
+    });
+  });
+
+  let isExcluded = (path: string) =>
+    excluded.some(v => path === v || path.indexOf(v + separator) === 0);
+
+  let paths: string[] = [];
+  let seenPaths = new Set<string>();
+
+  [baseState, ourState, theirState].forEach(v => {
+    Object.keys(v.valuesWithFullPaths()).forEach(path => {
+      if (!seenPaths.has(path)) {
+        seenPaths.add(path);
+        paths.push(path);
+      }
+    });
+  });
+
+  let isEqual = (v1: Try<T>, v2: Try<T>) =>
+    v1.isFailure() && v2.isFailure()
+      ? true
+      : v1.zipWith(v2, equalFn).getOrElse(false);
+
+  let updates: [string, Never<T>][] = [];
+
+  paths.filter(v => !isExcluded(v)).forEach(path => {
+    let baseValue = baseState.valueAtNode(path);
+    let ourValue = ourState.valueAtNode(path);
+    let theirValue = theirState.valueAtNode(path);
+
+    if (isEqual(ourValue, theirValue) || isEqual(baseValue, theirValue)) {
+      return;
+    } else if (isEqual(baseValue, ourValue)) {
+      updates.push([path, theirValue.value]);
+    } else {
+      conflicts.push({
+        type: 'value',
+        path,
+        base: baseValue,
+        ours: ourValue,
+        theirs: theirValue,
+      });
+    }
+  });
+
+  let state =
+    updates.length > 0
+      ? ourState.withMutations(draft => {
+          updates.forEach(([path, v]) => draft.updatingValue(path, v));
+        })
+      : ourState;
+
+  return {state, conflicts};
+}
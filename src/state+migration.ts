@@ -0,0 +1,142 @@
+import {Try} from 'javascriptutilities';
+import {Type} from './state+main';
+
+export type Migration<T> = (state: Type<T>) => Type<T>;
+
+/**
+ * Represents the outcome of running migrations on a state.
+ * @template T Generics parameter.
+ */
+export interface MigrationResult<T> {
+  /**
+   * The migrated state, or the error of the first migration that failed. In
+   * the latter case, none of the changes are kept and the original state
+   * should be used as it is.
+   */
+  readonly state: Try<Type<T>>;
+  readonly fromVersion: number;
+  readonly toVersion: number;
+
+  /**
+   * The versions whose migrations completed, in the order they ran.
+   */
+  readonly applied: number[];
+}
+
+/**
+ * Represents an ordered registry of migrations, each of which brings a state
+ * from the previous version to its own version. Like states, a registry is
+ * immutable - adding a migration returns a new registry.
+ * @template T Generics parameter.
+ */
+export interface Migrations<T> {
+  /**
+   * The highest registered version, or 0 if there is no migration.
+   */
+  readonly latestVersion: number;
+
+  /**
+   * Register the migration that produces some version. Versions must be
+   * positive integers and can only be registered once.
+   * @param {number} version A number value.
+   * @param {Migration<T>} migration A Migration instance.
+   * @returns {Migrations<T>} A Migrations instance.
+   */
+  add(version: number, migration: Migration<T>): Migrations<T>;
+
+  /**
+   * Run the migrations after some stored version, up to the latest version.
+   * Migrations stop at the first failure.
+   * @param {Type<T>} state A Type instance.
+   * @param {number} fromVersion The version of the state.
+   * @returns {MigrationResult<T>} A MigrationResult instance.
+   */
+  migrate(state: Type<T>, fromVersion: number): MigrationResult<T>;
+}
+
+interface Entry<T> {
+  readonly version: number;
+  readonly migration: Migration<T>;
+}
+
+class MigrationsImpl<T> implements Migrations<T> {
+  public get latestVersion(): number {
+    let last = this.entries[this.entries.length - 1];
+    return last !== undefined ? last.version : 0;
+  }
+
+  public constructor(private readonly entries: Entry<T>[]) {}
+
+  public add(version: number, migration: Migration<T>): Migrations<T> {
+    if (version !== Math.floor(version) || version < 1) {
+      throw new Error(`Invalid migration version ${version}`);
+    } else if (this.entries.some(v => v.version === version)) {
+      throw new Error(`Migration for version ${version} already exists`);
+    }
+
+    let entries = this.entries
+      .concat([{version, migration}])
+      .sort((v1, v2) => v1.version - v2.version);
+
+    return new MigrationsImpl(entries);
+  }
+
+  public migrate(state: Type<T>, fromVersion: number): MigrationResult<T> {
+    let toVersion = Math.max(this.latestVersion, fromVersion);
+    let applied: number[] = [];
+
+    if (fromVersion > this.latestVersion) {
+      let latest = this.latestVersion;
+
+      return {
+        state: Try.failure(
+          `State version ${fromVersion} is newer than latest version ${latest}`
+        ),
+        fromVersion,
+        toVersion,
+        applied,
+      };
+    }
+
+    let result = Try.success(state);
+
+    for (let {version, migration} of this.entries) {
+      if (version <= fromVersion) {
+        continue;
+      }
+
+      result = result.map(v => {
+        try {
+          let migrated = migration(v);
+
+          if (migrated === undefined || migrated === null) {
+            throw new Error('No state returned');
+          }
+
+          return migrated;
+        } catch (e) {
+          throw new Error(
+            `Migration to version ${version} failed: ${e.message}`
+          );
+        }
+      });
+
+      if (result.isFailure()) {
+        break;
+      }
+
+      applied.push(version);
+    }
+
+    return {state: result, fromVersion, toVersion, applied};
+  }
+}
+
+/**
+ * Create an empty migration registry.
+ * @template T Generics parameter.
+ * @returns {Migrations<T>} A Migrations instance.
+ */
+export function migrations<T>(): Migrations<T> {
+  return new MigrationsImpl<T>([]);
+}
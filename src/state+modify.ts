@@ -1,32 +1,42 @@
 import {Collections, JSObject, Never, Objects, Try} from 'javascriptutilities';
-import {Impl, Type, UpdateFn} from './state+main';
-import {empty} from './state+utility';
+import {
+  Impl,
+  isMutating,
+  mutating,
+  Type,
+  UpdateFn,
+  ValueGuard,
+} from './state+main';
+import {KeyPath, join, parse} from './state+path';
+import {empty, fromState, pathSegments, pathString} from './state+utility';
 
 declare module './state+main' {
   export interface Type<T> {
     /**
-     * Update the value at some node, ignoring the old value.
-     * @param {string} id A string value.
+     * Update the value at some node, ignoring the old value. If the state has
+     * a value guard (e.g. from a strict schema), values it rejects throw an
+     * error instead.
+     * @param {KeyPath} id A KeyPath instance.
      * @param {Never<T>} value T object.
      * @returns {Type} A Type instance.
      */
-    updatingValue(id: string, value: Never<T>): Type<T>;
+    updatingValue(id: KeyPath, value: Never<T>): Type<T>;
 
     /**
      * Copy value from one node to another.
-     * @param {string} src A string value.
-     * @param {string} dest A string value.
+     * @param {KeyPath} src A KeyPath instance.
+     * @param {KeyPath} dest A KeyPath instance.
      * @returns {Type<T>} A Type instance.
      */
-    copyingValue(src: string, dest: string): Type<T>;
+    copyingValue(src: KeyPath, dest: KeyPath): Type<T>;
 
     /**
      * Move value from one node to another.
-     * @param {string} src A string value.
-     * @param {string} dest A string value.
+     * @param {KeyPath} src A KeyPath instance.
+     * @param {KeyPath} dest A KeyPath instance.
      * @returns {Type<T>} A Type instance.
      */
-    movingValue(src: string, dest: string): Type<T>;
+    movingValue(src: KeyPath, dest: KeyPath): Type<T>;
 
     /**
      * Update all values from some key-value object.
@@ -37,135 +47,324 @@ declare module './state+main' {
 
     /**
      * Remove the value at some node.
-     * @param {string} id A string value.
+     * @param {KeyPath} id A KeyPath instance.
      * @returns {Type<T>} A Type instance.
      */
-    removingValue(id: string): Type<T>;
+    removingValue(id: KeyPath): Type<T>;
 
     /**
      * Update the substate at some node with another substate, ignoring the old
-     * substate.
-     * @param {string} id A string value.
+     * substate. If the state has a value guard, every value that is added or
+     * removed this way is checked as if it was updated on its own.
+     * @param {KeyPath} id A KeyPath instance.
      * @param {Never<Type<T>>} ss A Type instance.
      * @returns {Type<T>} A Type instance.
      */
-    updatingSubstate(id: string, ss: Never<Type<T>>): Type<T>;
+    updatingSubstate(id: KeyPath, ss: Never<Type<T>>): Type<T>;
 
     /**
      * Remove the substate at some node.
-     * @param {string} id A string value.
+     * @param {KeyPath} id A KeyPath instance.
      * @returns {Type<T>} A Type instance.
      */
-    removingSubstate(id: string): Type<T>;
+    removingSubstate(id: KeyPath): Type<T>;
 
     /**
      * Copy substate from one node to another.
-     * @param {string} src A string value.
-     * @param {string} dest A string value.
+     * @param {KeyPath} src A KeyPath instance.
+     * @param {KeyPath} dest A KeyPath instance.
      * @returns {Type<T>} A Type instance.
      */
-    copyingSubstate(src: string, dest: string): Type<T>;
+    copyingSubstate(src: KeyPath, dest: KeyPath): Type<T>;
 
     /**
      * Move substate from one node to another.
-     * @param {string} src A string value.
-     * @param {string} dest A string value.
+     * @param {KeyPath} src A KeyPath instance.
+     * @param {KeyPath} dest A KeyPath instance.
      * @returns {Type<T>} A Type instance.
      */
-    movingSubstate(src: string, dest: string): Type<T>;
+    movingSubstate(src: KeyPath, dest: KeyPath): Type<T>;
 
     /**
      * Empty the current state.
      * @returns {Type<T>} A Type instance.
      */
     emptying(): Type<T>;
+
+    /**
+     * Perform a batch of updates on a draft copy of the current state, then
+     * commit them as one new frozen state. Within the session, the update
+     * methods (e.g. updatingValue, movingValue, removingSubstate) change the
+     * draft in place instead of creating intermediate states, so there is no
+     * need to chain them or keep their results. The current state is never
+     * affected.
+     *
+     * The methods that update the draft in place are: updatingValue,
+     * removingValue, copyingValue, movingValue, updatingSubstate,
+     * removingSubstate, copyingSubstate, movingSubstate, updatingKeyValues,
+     * emptying, mappingValue, the array methods (pushingValue, insertingValue,
+     * removingIndex, splicing), updatingMatching, removingMatching,
+     * filteringValues, mappingKeys, renamingSubstate, flatteningSubstate,
+     * nestingValues, merging and applyingPatch. Methods that throw or fail on
+     * invalid input leave the draft as it was.
+     *
+     * Every other method that returns a state (e.g. withMutations itself,
+     * partitioningValues, mappingEach, mappingValueAsync, withSeparator,
+     * cloneWithPaths, the cloningWith methods and migrations) returns a new
+     * state that is independent of the draft, so later updates to the draft
+     * do not show up in it.
+     * @param {(draft: Type<T>) => void} fn The function that updates the draft.
+     * @returns {Type<T>} A Type instance.
+     */
+    withMutations(fn: (draft: Type<T>) => void): Type<T>;
+
+    /**
+     * Convert the current state tree to use another substate separator. Keys
+     * are kept as they are, so keys that contain the new separator must be
+     * escaped in string paths afterwards (see Path.join).
+     * @param {string} separator A string value.
+     * @returns {Type<T>} A Type instance.
+     */
+    withSeparator(separator: string): Type<T>;
   }
 
-  export interface Impl<T> extends Type<T> {}
+  export interface Impl<T> extends Type<T> {
+    /**
+     * Run some update that does not check the value guard by itself. The
+     * update runs on an unguarded copy, then the values it added, changed or
+     * removed are checked as a whole before the result is written back into
+     * the current state if it is a draft.
+     * @param {(state: Impl<T>) => Type<T>} fn The function that updates the
+     * state.
+     * @returns {Type<T>} A Type instance.
+     */
+    _guardingChanges(fn: (state: Impl<T>) => Type<T>): Type<T>;
+  }
 }
 
 Impl.prototype.updatingValue = function<T>(
-  id: string,
+  id: KeyPath,
   value: Never<T>
 ): Type<T> {
+  let separator = this.substateSeparator;
+
   let updateFn: UpdateFn<T> = () => {
-    return Try.unwrap(value, `No value found at ${id}`);
+    let path = pathString(id, separator);
+    return Try.unwrap(value, `No value found at ${path}`);
   };
 
   return this.mappingValue(id, updateFn);
 };
 
 Impl.prototype.updatingKeyValues = function<T>(values: JSObject<T>): Type<T> {
-  let state = this.cloneBuilder().build();
+  let updateAll = (): Type<T> => {
+    let state: Type<T> = this;
 
-  Objects.entries(values || {}).forEach(v => {
-    state = state.updatingValue(v[0], v[1]);
-  });
+    Objects.entries(values || {}).forEach(v => {
+      state = state.updatingValue(v[0], v[1]);
+    });
 
-  return state;
+    return state;
+  };
+
+  if (isMutating()) {
+    /// Within a session, join it so that the current state may still be
+    /// updated in place.
+    return updateAll();
+  }
+
+  return mutating(() => {
+    let state = updateAll();
+
+    if (state instanceof Impl) {
+      state.disown();
+    }
+
+    return state;
+  });
 };
 
-Impl.prototype.removingValue = function<T>(id: string): Type<T> {
+Impl.prototype.removingValue = function<T>(id: KeyPath): Type<T> {
   return this.updatingValue(id, undefined);
 };
 
-Impl.prototype.copyingValue = function<T>(src: string, dest: string): Type<T> {
+Impl.prototype.copyingValue = function<T>(
+  src: KeyPath,
+  dest: KeyPath
+): Type<T> {
   let sourceValue = this.valueAtNode(src);
   return this.updatingValue(dest, sourceValue.value);
 };
 
-Impl.prototype.movingValue = function<T>(src: string, dest: string): Type<T> {
+Impl.prototype.movingValue = function<T>(src: KeyPath, dest: KeyPath): Type<T> {
   return this.copyingValue(src, dest).removingValue(src);
 };
 
+/**
+ * Check the values of a substate that is about to replace another one.
+ * @template T Generics parameter.
+ * @param {ValueGuard} guard A ValueGuard instance.
+ * @param {string[]} keys The path of the substate.
+ * @param {Never<Type<T>>} oldSubstate The substate that is replaced.
+ * @param {Never<Type<T>>} newSubstate The substate that replaces it.
+ * @param {string} separator The substate separator.
+ */
+function guardSubstate<T>(
+  guard: ValueGuard,
+  keys: string[],
+  oldSubstate: Never<Type<T>>,
+  newSubstate: Never<Type<T>>,
+  separator: string
+): void {
+  let valuesOf = (ss: Never<Type<T>>) =>
+    ss !== undefined && ss !== null
+      ? fromState(ss, separator).valuesWithFullPaths()
+      : {};
+
+  let oldValues = valuesOf(oldSubstate);
+  let newValues = valuesOf(newSubstate);
+
+  let changes = Objects.entries<any>(newValues).concat(
+    Object.keys(oldValues)
+      .filter(v => !newValues.hasOwnProperty(v))
+      .map((v): [string, any] => [v, undefined])
+  );
+
+  changes.forEach(([path, value]) => {
+    let fullKeys = keys.concat(parse(path, separator));
+    let message = guard(fullKeys, value);
+
+    if (message !== undefined) {
+      throw new Error(`${message} at ${join(fullKeys, separator)}`);
+    }
+  });
+}
+
+Impl.prototype._guardingChanges = function<T>(
+  fn: (state: Impl<T>) => Type<T>
+): Type<T> {
+  let guard = this._valueGuard;
+
+  if (guard === undefined) {
+    return this.adopting(fn(this));
+  }
+
+  let unguarded = this.cloneBuilder()
+    .withValueGuard(undefined)
+    .build() as Impl<T>;
+
+  let result = fn(unguarded);
+
+  /// Outside of a mutation session, the copy cannot have been updated in
+  /// place, so getting it back means that nothing changed.
+  if (result === unguarded && !isMutating()) {
+    return this;
+  }
+
+  guardSubstate(guard, [], this, result, this.substateSeparator);
+
+  return this.editingBuilder()
+    .withBuildable(result)
+    .withValueGuard(guard)
+    .build();
+};
+
 Impl.prototype.updatingSubstate = function<T>(
-  id: string,
+  id: KeyPath,
   ss: Never<Type<T>>
 ): Type<T> {
-  let separator = this.substateSeparator;
-  let separated = id.split(separator);
-  let length = separated.length;
+  let separated = pathSegments(id, this.substateSeparator);
   let first = Collections.first(separated);
+  let guard = this._valueGuard;
+
+  if (guard !== undefined) {
+    let existing = this.substateAtNode(separated).value;
+    guardSubstate(guard, separated, existing, ss, this.substateSeparator);
+  }
+
+  if (separated.length === 1) {
+    /// The new substate may already be reachable from elsewhere, so it must
+    /// not be updated in place by the ongoing mutation session, if any.
+    if (ss instanceof Impl) {
+      ss.disown();
+    }
+
+    /// Substates inherit the separator of the tree they are added to.
+    let separator = this.substateSeparator;
+    let substate =
+      ss !== undefined && ss !== null ? fromState(ss, separator) : ss;
 
-  if (length === 1) {
     return first
       .map(v =>
-        this.cloneBuilder()
-          .updateSubstate(v, ss)
+        this.editingBuilder()
+          .updateSubstate(v, substate)
           .build()
       )
       .getOrElse(this);
   } else {
-    let subId = Try.evaluate(() => separated.slice(1, length).join(separator));
-
     return first
-      .flatMap(v => Try.unwrap(this._substate[v]))
-      .catchError(() => empty<T>())
-      .zipWith(subId, (v1, v2) => v1.updatingSubstate(v2, ss))
-      .zipWith(first, (v1, v2) => this.updatingSubstate(v2, v1))
+      .flatMap(v => Try.unwrap(this._substate.get(v)))
+      .catchError(() => empty<T>(this.substateSeparator))
+      .map(v => v.updatingSubstate(separated.slice(1), ss))
+      .zipWith(first, (v1, v2) =>
+        this.editingBuilder()
+          .updateSubstate(v2, v1)
+          .build()
+      )
       .getOrElse(this);
   }
 };
 
-Impl.prototype.removingSubstate = function<T>(id: string): Type<T> {
+Impl.prototype.removingSubstate = function<T>(id: KeyPath): Type<T> {
   return this.updatingSubstate(id, undefined);
 };
 
 Impl.prototype.copyingSubstate = function<T>(
-  src: string,
-  dest: string
+  src: KeyPath,
+  dest: KeyPath
 ): Type<T> {
   let sourceSubstate = this.substateAtNode(src);
   return this.updatingSubstate(dest, sourceSubstate.value);
 };
 
 Impl.prototype.movingSubstate = function<T>(
-  src: string,
-  dest: string
+  src: KeyPath,
+  dest: KeyPath
 ): Type<T> {
   return this.copyingSubstate(src, dest).removingSubstate(src);
 };
 
 Impl.prototype.emptying = function<T>(): Type<T> {
-  return empty();
+  return this._guardingChanges(state =>
+    state
+      .editingBuilder()
+      .withValues({})
+      .withSubstate({})
+      .build()
+  );
+};
+
+Impl.prototype.withMutations = function<T>(
+  fn: (draft: Type<T>) => void
+): Type<T> {
+  return mutating(() => {
+    let draft = this.cloneBuilder().build() as Impl<T>;
+    fn(draft);
+    draft.disown();
+    return draft;
+  });
+};
+
+Impl.prototype.withSeparator = function<T>(separator: string): Type<T> {
+  if (separator === this.substateSeparator) {
+    return this;
+  }
+
+  let builder = this.cloneBuilder().withSubstateSeparator(separator);
+
+  this._substate.entries().forEach(([key, substate]) => {
+    builder.updateSubstate(key, fromState(substate, separator));
+  });
+
+  return builder.build();
 };
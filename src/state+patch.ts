@@ -0,0 +1,378 @@
+import {Never, Objects, Try} from 'javascriptutilities';
+
+import {
+  Impl,
+  PatchOperation,
+  StateType,
+  Type,
+  substateKey,
+  valuesKey,
+} from './state+main';
+
+import {deepEquals} from './state+equal';
+import {join, parse} from './state+path';
+import {fromKeyValue} from './state+utility';
+
+declare module './state+main' {
+  export interface Type<T> {
+    /**
+     * Apply a JSON Patch (RFC 6902) document to the current state. Paths
+     * point into the layout produced by flatten(), e.g. /substate/a/values/b
+     * for the value at 'a.b' and /substate/a for the substate at 'a'. Missing
+     * substates along an added path are created, as with updatingValue. If
+     * any operation fails (including a failed test), the whole patch is
+     * rejected and no change is applied. Tested values are compared with
+     * deepEquals, so Dates, Maps and Sets are compared by content.
+     * @param {PatchOperation[]} ops An Array of patch operations.
+     * @returns {Try<Type<T>>} A Try Type instance.
+     */
+    applyingPatch(ops: PatchOperation[]): Try<Type<T>>;
+  }
+
+  export interface Impl<T> extends Type<T> {}
+}
+
+type Target =
+  | {kind: 'root'}
+  | {kind: 'value'; path: string}
+  | {kind: 'substate'; path: string};
+
+/**
+ * Escape a key for use as a JSON Pointer segment.
+ * @param {string} key A string value.
+ * @returns {string} A string value.
+ */
+function escapeSegment(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Unescape a JSON Pointer segment.
+ * @param {string} segment A string value.
+ * @returns {string} A string value.
+ */
+function unescapeSegment(segment: string): string {
+  return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Convert a JSON Pointer to a value or substate target.
+ * @param {string} pointer A string value.
+ * @param {string} separator The substate separator.
+ * @returns {Target} A Target instance.
+ */
+function parsePointer(pointer: string, separator: string): Target {
+  if (pointer === '') {
+    return {kind: 'root'};
+  } else if (pointer.charAt(0) !== '/') {
+    throw new Error(`Invalid patch path ${pointer}`);
+  }
+
+  let segments = pointer
+    .slice(1)
+    .split('/')
+    .map(unescapeSegment);
+
+  let keys: string[] = [];
+
+  for (let i = 0; i < segments.length; i += 2) {
+    let container = segments[i];
+    let key = segments[i + 1];
+
+    if (key === undefined) {
+      break;
+    } else if (container === substateKey) {
+      keys.push(key);
+    } else if (container === valuesKey && i + 2 === segments.length) {
+      return {kind: 'value', path: join(keys.concat([key]), separator)};
+    } else {
+      break;
+    }
+  }
+
+  if (keys.length * 2 === segments.length) {
+    return {kind: 'substate', path: join(keys, separator)};
+  } else {
+    throw new Error(`Unsupported patch path ${pointer}`);
+  }
+}
+
+/**
+ * Convert a value or substate path to a JSON Pointer.
+ * @param {string} path A string value.
+ * @param {string} separator The substate separator.
+ * @param {boolean} isValue Whether the path points to a value.
+ * @returns {string} A string value.
+ */
+function createPointer(
+  path: string,
+  separator: string,
+  isValue: boolean
+): string {
+  let keys = parse(path, separator).map(escapeSegment);
+  let last = keys.length - 1;
+
+  return keys
+    .map((v, i) => (isValue && i === last ? valuesKey : substateKey) + '/' + v)
+    .map(v => '/' + v)
+    .join('');
+}
+
+/**
+ * Get the value or substate at some target.
+ * @template T Generics parameter.
+ * @param {Type<T>} state A Type instance.
+ * @param {Target} target A Target instance.
+ * @param {string} pointer The original pointer, for error messages.
+ * @returns {T | Type<T>} The value or substate.
+ */
+function getTarget<T>(
+  state: Type<T>,
+  target: Target,
+  pointer: string
+): T | Type<T> {
+  let result: Try<T | Type<T>>;
+
+  switch (target.kind) {
+    case 'root':
+      result = Try.success(state);
+      break;
+
+    case 'value':
+      result = state.valueAtNode(target.path);
+      break;
+
+    default:
+      result = state.substateAtNode(target.path);
+      break;
+  }
+
+  return result.mapError(() => `Nothing found at ${pointer}`).getOrThrow();
+}
+
+/**
+ * Replace the whole draft state with another state.
+ * @template T Generics parameter.
+ * @param {Type<T>} draft A Type instance.
+ * @param {Type<T>} state A Type instance.
+ */
+function replaceRoot<T>(draft: Type<T>, state: Type<T>): void {
+  /// Values that are kept must not be checked as removed in between.
+  (draft as Impl<T>)._guardingChanges(current => {
+    let result = current.emptying();
+
+    Objects.entries(state.values).forEach(
+      v => (result = result.updatingValue(v[0], v[1]))
+    );
+
+    Objects.entries(state.substate).forEach(
+      v => (result = result.updatingSubstate(v[0], v[1]))
+    );
+
+    return result;
+  });
+}
+
+/**
+ * Set the value or substate at some target.
+ * @template T Generics parameter.
+ * @param {Type<T>} draft A Type instance.
+ * @param {Target} target A Target instance.
+ * @param {*} value The value, or a state/flattened state for substates.
+ */
+function setTarget<T>(draft: Type<T>, target: Target, value: any): void {
+  if (target.kind === 'root') {
+    replaceRoot(draft, fromKeyValue(value));
+  } else if (target.kind === 'substate') {
+    draft.updatingSubstate(target.path, fromKeyValue(value));
+  } else if (value !== undefined && value !== null) {
+    draft.updatingValue(target.path, value);
+  } else {
+    throw new Error(`Cannot set empty value at ${target.path}`);
+  }
+}
+
+/**
+ * Remove the value or substate at some target.
+ * @template T Generics parameter.
+ * @param {Type<T>} draft A Type instance.
+ * @param {Target} target A Target instance.
+ */
+function removeTarget<T>(draft: Type<T>, target: Target): void {
+  if (target.kind === 'root') {
+    draft.emptying();
+  } else if (target.kind === 'substate') {
+    draft.removingSubstate(target.path);
+  } else {
+    draft.removingValue(target.path);
+  }
+}
+
+/**
+ * Identify the location of some target.
+ * @param {Target} target A Target instance.
+ * @returns {string} A string value.
+ */
+function pathOf(target: Target): string {
+  return target.kind === 'root' ? target.kind : `${target.kind}:${target.path}`;
+}
+
+/**
+ * Move or copy the value or substate at some target to another target.
+ * @template T Generics parameter.
+ * @param {Type<T>} draft A Type instance.
+ * @param {PatchOperation} op A move or copy operation.
+ * @param {Target} source A Target instance.
+ * @param {Target} target A Target instance.
+ */
+function transferTarget<T>(
+  draft: Type<T>,
+  op: PatchOperation & {from: string},
+  source: Target,
+  target: Target
+): void {
+  let isMove = op.op === 'move';
+
+  /// Moving something onto its own location leaves it as it is (RFC 6902).
+  if (isMove && pathOf(source) === pathOf(target)) {
+    return;
+  } else if (source.kind === 'value' && target.kind === 'value') {
+    if (isMove) {
+      draft.movingValue(source.path, target.path);
+    } else {
+      draft.copyingValue(source.path, target.path);
+    }
+  } else if (source.kind === 'substate' && target.kind === 'substate') {
+    let prefix = source.path + draft.substateSeparator;
+
+    if (isMove && target.path.indexOf(prefix) === 0) {
+      throw new Error(`Cannot move ${op.from} into itself`);
+    } else if (isMove) {
+      draft.movingSubstate(source.path, target.path);
+    } else if (!isMove) {
+      draft.copyingSubstate(source.path, target.path);
+    }
+  } else {
+    throw new Error(`Cannot ${op.op} ${op.from} to ${op.path}`);
+  }
+}
+
+/**
+ * Check that the value or substate at some target equals a JSON value.
+ * @template T Generics parameter.
+ * @param {Type<T>} draft A Type instance.
+ * @param {Target} target A Target instance.
+ * @param {string} pointer The original pointer, for error messages.
+ * @param {*} value The expected value, or flattened state for substates.
+ */
+function testTarget<T>(
+  draft: Type<T>,
+  target: Target,
+  pointer: string,
+  value: any
+): void {
+  let current = getTarget(draft, target, pointer);
+
+  let isEqual =
+    target.kind === 'value'
+      ? deepEquals(current, value)
+      : deepEquals(
+          (current as Type<T>).flatten(),
+          fromKeyValue(value).flatten()
+        );
+
+  if (!isEqual) {
+    throw new Error(`Test failed at ${pointer}`);
+  }
+}
+
+/**
+ * Apply one patch operation to a draft state.
+ * @template T Generics parameter.
+ * @param {Type<T>} draft A Type instance.
+ * @param {PatchOperation} op A PatchOperation instance.
+ */
+function applyOperation<T>(draft: Type<T>, op: PatchOperation): void {
+  let separator = draft.substateSeparator;
+  let target = parsePointer(op.path, separator);
+
+  switch (op.op) {
+    case 'add':
+      setTarget(draft, target, op.value);
+      break;
+
+    case 'replace':
+      getTarget(draft, target, op.path);
+      setTarget(draft, target, op.value);
+      break;
+
+    case 'remove':
+      getTarget(draft, target, op.path);
+      removeTarget(draft, target);
+      break;
+
+    case 'move':
+    case 'copy':
+      let source = parsePointer(op.from, separator);
+      getTarget(draft, source, op.from);
+      transferTarget(draft, op, source, target);
+      break;
+
+    case 'test':
+      testTarget(draft, target, op.path, op.value);
+      break;
+
+    default:
+      throw new Error(`Invalid patch operation ${JSON.stringify(op)}`);
+  }
+}
+
+Impl.prototype.applyingPatch = function<T>(
+  ops: PatchOperation[]
+): Try<Type<T>> {
+  /// Patches are applied to a copy so that they stay atomic, and only then
+  /// written back into the current state if it is a draft.
+  return Try.evaluate(() =>
+    this.withMutations(draft => {
+      ops.forEach(v => applyOperation(draft, v));
+    })
+  ).map(v => this.adopting(v));
+};
+
+/**
+ * Create a JSON Patch (RFC 6902) document that turns one state into another.
+ * Values and substates are addressed with the layout produced by flatten(),
+ * and added substates are included in their flattened form. Values are
+ * compared with deepEquals, so changed Dates, Maps and Sets are replaced.
+ * @param {Never<StateType<any>>} from A StateType instance.
+ * @param {Never<StateType<any>>} to A StateType instance.
+ * @returns {PatchOperation[]} An Array of patch operations.
+ */
+export function createPatch(
+  from: Never<StateType<any>>,
+  to: Never<StateType<any>>
+): PatchOperation[] {
+  let state = fromKeyValue(from);
+  let sp = state.substateSeparator;
+
+  return state.diff(to, deepEquals).map(
+    (v): PatchOperation => {
+      let isValue = v.type.indexOf('value') === 0;
+      let path = createPointer(v.path, sp, isValue);
+
+      switch (v.type) {
+        case 'valueAdded':
+          return {op: 'add', path, value: v.value};
+
+        case 'valueChanged':
+          return {op: 'replace', path, value: v.newValue};
+
+        case 'substateAdded':
+          return {op: 'add', path, value: v.substate.flatten()};
+
+        default:
+          return {op: 'remove', path};
+      }
+    }
+  );
+}
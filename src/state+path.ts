@@ -0,0 +1,86 @@
+/**
+ * Represents a path to some node, either as a string whose segments are
+ * joined with the substate separator, or as an Array of unescaped segments.
+ */
+export type KeyPath = string | string[];
+
+export let defaultSeparator = '.';
+let escapeCharacter = '\\';
+let escapedCharacters = [escapeCharacter, '[', ']'];
+
+/**
+ * Split a path into its segments. Array indexes may be written with brackets,
+ * e.g. 'todos[0].title' is parsed to ['todos', '0', 'title']. A separator,
+ * bracket or backslash that is preceded by a backslash belongs to the
+ * segment, e.g. 'a.example\.com.b' is parsed to ['a', 'example.com', 'b'].
+ * @param {string} path A string value.
+ * @param {string} [separator] The substate separator, '.' by default.
+ * @returns {string[]} An Array of segments.
+ */
+export function parse(
+  path: string,
+  separator: string = defaultSeparator
+): string[] {
+  if (separator.length === 0) {
+    return path.split(separator);
+  }
+
+  let segments: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < path.length) {
+    let character = path.charAt(i);
+    let next = path.charAt(i + 1);
+    let isEscape = character === escapeCharacter;
+    let index =
+      character === '[' ? /^\[(\d+)\]/.exec(path.substr(i)) : undefined;
+
+    if (isEscape && path.substr(i + 1, separator.length) === separator) {
+      current += separator;
+      i += separator.length + 1;
+    } else if (isEscape && escapedCharacters.indexOf(next) >= 0) {
+      current += next;
+      i += 2;
+    } else if (index) {
+      if (i > 0) {
+        segments.push(current);
+      }
+
+      current = index[1];
+      i += index[0].length;
+    } else if (path.substr(i, separator.length) === separator) {
+      segments.push(current);
+      current = '';
+      i += separator.length;
+    } else {
+      current += character;
+      i += 1;
+    }
+  }
+
+  return segments.concat([current]);
+}
+
+/**
+ * Join some segments into a path, escaping separators, brackets and
+ * backslashes within each segment so that parse gives back the same segments.
+ * @param {string[]} segments An Array of segments.
+ * @param {string} [separator] The substate separator, '.' by default.
+ * @returns {string} A string value.
+ */
+export function join(
+  segments: string[],
+  separator: string = defaultSeparator
+): string {
+  return segments
+    .map(v =>
+      v
+        .split(escapeCharacter)
+        .join(escapeCharacter + escapeCharacter)
+        .split(separator)
+        .join(escapeCharacter + separator)
+        .replace(/[\[\]]/g, v1 => escapeCharacter + v1)
+    )
+    .join(separator);
+}
@@ -0,0 +1,306 @@
+import {JSObject, Never, Undefined} from 'javascriptutilities';
+import {Type} from './state+main';
+import {KeyPath} from './state+path';
+import {Reviver, deserialize, serialize} from './state+serialize';
+import {Store} from './state+store';
+
+/**
+ * Represents an asynchronous key-value storage. Objects with the same methods
+ * can be used as adapters directly.
+ */
+export interface StorageAdapter {
+  /**
+   * Read the item at some key.
+   * @param {string} key A string value.
+   * @returns {Promise<Undefined<string>>} A Promise of the item, which
+   * resolves to undefined if there is none.
+   */
+  getItem(key: string): Promise<Undefined<string>>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Represents the synchronous subset of the Web Storage API that adapters need,
+ * e.g. window.localStorage, whose getItem returns null for missing items.
+ */
+export interface WebStorage {
+  getItem(key: string): Never<string>;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Represents the subset of Node's fs module that the file system adapter
+ * needs, so that this library does not depend on Node.
+ */
+export interface FileSystem {
+  readFile(
+    path: string,
+    encoding: string,
+    callback: (error: any, data: string) => void
+  ): void;
+
+  writeFile(
+    path: string,
+    data: string,
+    encoding: string,
+    callback: (error: any) => void
+  ): void;
+
+  unlink(path: string, callback: (error: any) => void): void;
+}
+
+export interface PersistOptions {
+  readonly adapter: StorageAdapter;
+  readonly key: string;
+
+  /**
+   * The value/substate paths to persist and rehydrate. Everything else (e.g.
+   * transient UI state) is left out. Paths that point into an array/plain
+   * object value save that whole value.
+   */
+  readonly paths: KeyPath[];
+
+  /**
+   * The minimum delay between two saves. Changes made in the meantime are
+   * saved together. Defaults to 0, i.e. changes are saved in the next tick.
+   */
+  readonly throttleMs?: number;
+
+  readonly revivers?: Reviver<any>[];
+
+  /**
+   * Called when a scheduled save fails.
+   */
+  readonly onError?: (error: Error) => void;
+}
+
+/**
+ * Represents a running persistence of some store.
+ */
+export interface Persistor {
+  /**
+   * Resolves when the stored state has been rehydrated into the store, and
+   * rejects if the stored state could not be read. Changes are only saved
+   * after a successful rehydration, so that stored data that could not be
+   * read is not overwritten (unless flush is called).
+   */
+  readonly rehydrated: Promise<void>;
+
+  /**
+   * Save the persisted paths immediately, cancelling any scheduled save.
+   * @returns {Promise<void>} A Promise instance.
+   */
+  flush(): Promise<void>;
+
+  /**
+   * Stop listening to the store. Pending changes are not saved.
+   */
+  stop(): void;
+}
+
+/**
+ * In-memory storage that implements the Web Storage API, e.g. for tests or
+ * environments without localStorage. Unlike localStorage, missing keys and
+ * items are undefined instead of null.
+ */
+export class MemoryStorage implements WebStorage {
+  private items: JSObject<string> = {};
+
+  public get length(): number {
+    return Object.keys(this.items).length;
+  }
+
+  public key(index: number): Undefined<string> {
+    return Object.keys(this.items)[index];
+  }
+
+  public getItem(key: string): Undefined<string> {
+    let item = this.items.hasOwnProperty(key) ? this.items[key] : undefined;
+    return typeof item === 'string' ? item : undefined;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.items[key] = String(value);
+  }
+
+  public removeItem(key: string): void {
+    delete this.items[key];
+  }
+
+  public clear(): void {
+    this.items = {};
+  }
+}
+
+/**
+ * Create an adapter for some Web Storage, or for a new in-memory storage if
+ * none is given.
+ * @param {Never<WebStorage>} storage Optional WebStorage instance.
+ * @returns {StorageAdapter} A StorageAdapter instance.
+ */
+export function webStorageAdapter(storage?: Never<WebStorage>): StorageAdapter {
+  let webStorage = storage || new MemoryStorage();
+
+  return {
+    getItem: key =>
+      Promise.resolve().then(() => {
+        let item = webStorage.getItem(key);
+        return item !== null ? item : undefined;
+      }),
+    setItem: (key, value) =>
+      Promise.resolve().then(() => webStorage.setItem(key, value)),
+    removeItem: key => Promise.resolve().then(() => webStorage.removeItem(key)),
+  };
+}
+
+/**
+ * Create an adapter that stores each key as a JSON file in some directory,
+ * e.g. fileSystemAdapter(require('fs'), './cache').
+ * @param {FileSystem} fs Node's fs module.
+ * @param {string} directory A string value.
+ * @returns {StorageAdapter} A StorageAdapter instance.
+ */
+export function fileSystemAdapter(
+  fs: FileSystem,
+  directory: string
+): StorageAdapter {
+  let pathOf = (key: string) => `${directory}/${encodeURIComponent(key)}.json`;
+
+  return {
+    getItem: key =>
+      new Promise((resolve, reject) => {
+        fs.readFile(pathOf(key), 'utf8', (error, data) => {
+          if (error && error.code === 'ENOENT') {
+            resolve(undefined);
+          } else if (error) {
+            reject(error);
+          } else {
+            resolve(data);
+          }
+        });
+      }),
+    setItem: (key, value) =>
+      new Promise((resolve, reject) => {
+        fs.writeFile(pathOf(key), value, 'utf8', error => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve();
+          }
+        });
+      }),
+    removeItem: key =>
+      new Promise((resolve, reject) => {
+        fs.unlink(pathOf(key), error => {
+          if (error && error.code !== 'ENOENT') {
+            reject(error);
+          } else {
+            resolve();
+          }
+        });
+      }),
+  };
+}
+
+/**
+ * Copy the persisted paths from a restored state to the current state.
+ * @template T Generics parameter.
+ * @param {Type<T>} state A Type instance.
+ * @param {Type<T>} restored A Type instance.
+ * @param {KeyPath[]} paths An Array of paths.
+ * @returns {Type<T>} A Type instance.
+ */
+function rehydrate<T>(
+  state: Type<T>,
+  restored: Type<T>,
+  paths: KeyPath[]
+): Type<T> {
+  return state.withMutations(draft => {
+    paths.forEach(v => {
+      restored.valueAtNode(v).doOnNext(v1 => draft.updatingValue(v, v1));
+
+      restored.substateAtNode(v).doOnNext(v1 => draft.updatingSubstate(v, v1));
+    });
+  });
+}
+
+/**
+ * Persist some paths of a store's state to a storage adapter. The stored
+ * state is first rehydrated into the store, after which changes at those
+ * paths are saved with serialize, at most once per throttle interval.
+ * @template T Generics parameter.
+ * @param {Store<T>} store A Store instance.
+ * @param {PersistOptions} options A PersistOptions instance.
+ * @returns {Persistor} A Persistor instance.
+ */
+export function persist<T>(
+  store: Store<T>,
+  options: PersistOptions
+): Persistor {
+  let {adapter, key, paths, revivers} = options;
+  let throttleMs = Math.max(options.throttleMs || 0, 0);
+  let unsubscribers: (() => void)[] = [];
+  let timer: Undefined<number>;
+  let isStopped = false;
+
+  let flush = (): Promise<void> => {
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+
+    let state = store.state.cloneWithPaths(paths, paths);
+
+    return Promise.resolve().then(() => {
+      let json = serialize(state, {revivers}).getOrThrow();
+      return adapter.setItem(key, json);
+    });
+  };
+
+  let schedule = (): void => {
+    if (timer === undefined && !isStopped) {
+      timer = setTimeout(() => {
+        timer = undefined;
+
+        flush().catch(e => {
+          if (options.onError) {
+            options.onError(e);
+          }
+        });
+      }, throttleMs);
+    }
+  };
+
+  let rehydrated = adapter.getItem(key).then(json => {
+    if (json !== undefined && !isStopped) {
+      let restored = deserialize<T>(json, {revivers}).getOrThrow();
+      store.replace(rehydrate(store.state, restored, paths));
+    }
+  });
+
+  /// Changes are only saved after rehydration, so that the stored state is
+  /// not overwritten before it could be read, or at all if it is unreadable.
+  let subscribe = () => {
+    if (!isStopped) {
+      unsubscribers = paths.map(v => store.subscribe(v, schedule));
+    }
+  };
+
+  rehydrated.then(subscribe, () => undefined);
+
+  return {
+    rehydrated,
+    flush,
+    stop: () => {
+      isStopped = true;
+      unsubscribers.forEach(v => v());
+
+      if (timer !== undefined) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+    },
+  };
+}
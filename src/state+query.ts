@@ -0,0 +1,159 @@
+import {JSObject, Try} from 'javascriptutilities';
+import {Impl, Type, UpdateFn} from './state+main';
+import {KeyPath, join} from './state+path';
+import {pathSegments} from './state+utility';
+
+declare module './state+main' {
+  export interface Type<T> {
+    /**
+     * Find all values whose full paths match a pattern. Pattern segments are
+     * separated with the substate separator; '*' matches any one segment
+     * (or any characters within a segment, e.g. 'user*'), and '**' matches
+     * any number of segments. Substates that cannot match are not visited.
+     * Keys that contain the separator are escaped in the resulting paths.
+     * @param {KeyPath} pattern A KeyPath instance.
+     * @returns {JSObject<T>} A JSObject of full paths and values.
+     */
+    query(pattern: KeyPath): JSObject<T>;
+
+    /**
+     * Map all values whose full paths match a pattern (see query).
+     * @param {KeyPath} pattern A KeyPath instance.
+     * @param {UpdateFn<T>} fn Selector function.
+     * @returns {Type<T>} A Type instance.
+     */
+    updatingMatching(pattern: KeyPath, fn: UpdateFn<T>): Type<T>;
+
+    /**
+     * Remove all values whose full paths match a pattern (see query).
+     * @param {KeyPath} pattern A KeyPath instance.
+     * @returns {Type<T>} A Type instance.
+     */
+    removingMatching(pattern: KeyPath): Type<T>;
+  }
+
+  export interface Impl<T> extends Type<T> {
+    _query(segments: string[], ssPath: Try<string>, result: JSObject<T>): void;
+  }
+}
+
+/**
+ * Check if a key matches a pattern segment.
+ * @param {string} segment A string value.
+ * @param {string} key A string value.
+ * @returns {boolean} A boolean value.
+ */
+export function matchesSegment(segment: string, key: string): boolean {
+  if (segment === '*') {
+    return true;
+  } else if (segment.indexOf('*') === -1) {
+    return segment === key;
+  } else {
+    let escaped = segment
+      .split('*')
+      .map(v => v.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+
+    return new RegExp(`^${escaped}$`).test(key);
+  }
+}
+
+/**
+ * Check if a full path matches a pattern (see query).
+ * @param {string[]} segments The pattern segments.
+ * @param {string[]} keys The path keys.
+ * @returns {boolean} A boolean value.
+ */
+export function matchesPattern(segments: string[], keys: string[]): boolean {
+  if (segments.length === 0) {
+    return keys.length === 0;
+  } else if (segments[0] === '**') {
+    return (
+      matchesPattern(segments.slice(1), keys) ||
+      (keys.length > 0 && matchesPattern(segments, keys.slice(1)))
+    );
+  } else {
+    return (
+      keys.length > 0 &&
+      matchesSegment(segments[0], keys[0]) &&
+      matchesPattern(segments.slice(1), keys.slice(1))
+    );
+  }
+}
+
+Impl.prototype._query = function<T>(
+  segments: string[],
+  ssPath: Try<string>,
+  result: JSObject<T>
+): void {
+  if (segments.length === 0) {
+    return;
+  }
+
+  let separator = this.substateSeparator;
+  let prefix = ssPath.map(v => v + separator).getOrElse('');
+  let segment = segments[0];
+  let rest = segments.slice(1);
+
+  if (segment === '**') {
+    /// '**' may match no segment at all, or any number of substate keys. A
+    /// trailing '**' matches every value at or below the current node.
+    if (rest.length > 0) {
+      this._query(rest, ssPath, result);
+    } else {
+      this._values
+        .entries()
+        .forEach(
+          ([key, value]) => (result[prefix + join([key], separator)] = value)
+        );
+    }
+
+    this._substate.entries().forEach(([key, substate]) => {
+      let path = Try.success(prefix + join([key], separator));
+      (substate as Impl<T>)._query(segments, path, result);
+    });
+  } else if (rest.length === 0) {
+    this._values
+      .entries()
+      .filter(([key]) => matchesSegment(segment, key))
+      .forEach(
+        ([key, value]) => (result[prefix + join([key], separator)] = value)
+      );
+  } else {
+    this._substate
+      .entries()
+      .filter(([key]) => matchesSegment(segment, key))
+      .forEach(([key, substate]) => {
+        let path = Try.success(prefix + join([key], separator));
+        (substate as Impl<T>)._query(rest, path, result);
+      });
+  }
+};
+
+Impl.prototype.query = function<T>(pattern: KeyPath): JSObject<T> {
+  let result: JSObject<T> = {};
+  let segments = pathSegments(pattern, this.substateSeparator);
+  this._query(segments, Try.failure('No substate path for top state'), result);
+  return result;
+};
+
+Impl.prototype.updatingMatching = function<T>(
+  pattern: KeyPath,
+  fn: UpdateFn<T>
+): Type<T> {
+  let paths = Object.keys(this.query(pattern));
+
+  if (paths.length === 0) {
+    return this;
+  }
+
+  return this.adopting(
+    this.withMutations(draft => {
+      paths.forEach(v => draft.mappingValue(v, fn));
+    })
+  );
+};
+
+Impl.prototype.removingMatching = function<T>(pattern: KeyPath): Type<T> {
+  return this.updatingMatching(pattern, () => undefined);
+};
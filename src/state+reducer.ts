@@ -0,0 +1,43 @@
+import {Type} from './state+main';
+import {empty} from './state+utility';
+
+export type Reducer<T, A = any> = (state: Type<T>, action: A) => Type<T>;
+
+/**
+ * Combine reducers that each handle the substate at some path into a reducer
+ * for the whole state. A reducer receives the substate at its path (or an
+ * empty state if there is none), and its result is written back with
+ * updatingSubstate. If every reducer returns the substate it received, the
+ * original state is returned as it is, so reference checks still work.
+ * @template T Generics parameter.
+ * @template A Generics parameter.
+ * @param {{[path: string]: Reducer<T, A>}} reducers Reducers keyed by
+ * substate path.
+ * @returns {Reducer<T, A>} A Reducer instance.
+ */
+export function combineReducers<T, A = any>(reducers: {
+  [path: string]: Reducer<T, A>;
+}): Reducer<T, A> {
+  let paths = Object.keys(reducers);
+
+  return (state, action) => {
+    let changes = paths
+      .map(
+        (v): [string, Type<T>, Type<T>] => {
+          let substate = state
+            .substateAtNode(v)
+            .getOrElse(empty<T>(state.substateSeparator));
+          return [v, substate, reducers[v](substate, action)];
+        }
+      )
+      .filter(v => v[1] !== v[2]);
+
+    if (changes.length === 0) {
+      return state;
+    }
+
+    return state.withMutations(draft => {
+      changes.forEach(v => draft.updatingSubstate(v[0], v[2]));
+    });
+  };
+}
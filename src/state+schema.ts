@@ -0,0 +1,277 @@
+import {Never, Objects, Undefined} from 'javascriptutilities';
+import {StateType, Type, valuesKey} from './state+main';
+import {KeyPath, join, parse} from './state+path';
+import {fromKeyValue, isContainer, pathSegments} from './state+utility';
+
+export type TypeName =
+  | 'any'
+  | 'array'
+  | 'boolean'
+  | 'date'
+  | 'number'
+  | 'object'
+  | 'string'
+  | 'undefined';
+
+/**
+ * Describes the values allowed at some key: a type name, a list of type names
+ * (any of which is allowed) or a predicate. Values are required unless
+ * 'undefined' is allowed.
+ */
+export type ValueSchema = TypeName | TypeName[] | ((value: any) => boolean);
+
+/**
+ * Describes a substate. The 'values' key describes the values of the
+ * substate, while every other key describes a nested substate, e.g.
+ * {values: {id: 'number'}, profile: {values: {name: 'string'}}}.
+ */
+export interface ValueSchemas {
+  readonly [key: string]: ValueSchema;
+}
+
+export interface NodeSchema {
+  readonly values?: ValueSchemas;
+  readonly [key: string]: Undefined<NodeSchema | ValueSchemas>;
+}
+
+export interface SchemaOptions {
+  /**
+   * If true, values and substates that are not described are allowed.
+   */
+  readonly allowUnknown?: boolean;
+}
+
+export interface Violation {
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * Represents a declarative description of the shape of a state.
+ */
+export interface Schema {
+  /**
+   * Check a state (or anything that fromKeyValue accepts) against the
+   * current schema.
+   * @param {Never<StateType<any>>} state A StateType instance.
+   * @returns {Violation[]} An Array of violations, empty if the state is
+   * valid.
+   */
+  validate(state: Never<StateType<any>>): Violation[];
+
+  /**
+   * Check a value that would be stored at some path. An undefined value
+   * stands for removal. String paths are parsed with the default separator.
+   * @param {KeyPath} path A KeyPath instance.
+   * @param {*} value Any value.
+   * @returns {Undefined<string>} The reason the value is rejected, if any.
+   */
+  validateValue(path: KeyPath, value: any): Undefined<string>;
+
+  /**
+   * Get a copy of some state whose updates throw an error for values that
+   * the current schema rejects, e.g. values at keys it does not describe,
+   * including values they remove. This covers updatingValue, mappingValue,
+   * updatingSubstate and the methods built on them, as well as merging,
+   * filteringValues, partitioningValues, mappingKeys, renamingSubstate,
+   * flatteningSubstate, nestingValues, emptying and applyingPatch, whose
+   * results are guarded as well. mappingEach, mappingEachAsync,
+   * cloneWithPaths and the cloningWith methods build new states that are not
+   * guarded.
+   * @template T Generics parameter.
+   * @param {Type<T>} state A Type instance.
+   * @returns {Type<T>} A Type instance.
+   */
+  strict<T>(state: Type<T>): Type<T>;
+}
+
+/**
+ * Check if a value matches a type name.
+ * @param {TypeName} name A TypeName instance.
+ * @param {*} value Any value.
+ * @returns {boolean} A boolean value.
+ */
+function matchesType(name: TypeName, value: any): boolean {
+  switch (name) {
+    case 'any':
+      return value !== undefined;
+
+    case 'array':
+      return value instanceof Array;
+
+    case 'date':
+      return value instanceof Date;
+
+    case 'object':
+      return isContainer(value) && !(value instanceof Array);
+
+    default:
+      return typeof value === name;
+  }
+}
+
+/**
+ * Get an own property of a schema description, so that keys such as
+ * 'constructor' or 'toString' are not mistaken for described ones.
+ * @template V Generics parameter.
+ * @param {{readonly [key: string]: V}} object A schema description.
+ * @param {string} key A string value.
+ * @returns {Undefined<V>} V object.
+ */
+function describedAt<V>(
+  object: {readonly [key: string]: V},
+  key: string
+): Undefined<V> {
+  return Object.prototype.hasOwnProperty.call(object, key)
+    ? object[key]
+    : undefined;
+}
+
+class SchemaImpl implements Schema {
+  public constructor(
+    private readonly root: NodeSchema,
+    private readonly options: SchemaOptions
+  ) {}
+
+  public validate(state: Never<StateType<any>>): Violation[] {
+    let parsed = fromKeyValue(state);
+    let separator = parsed.substateSeparator;
+    let violations: Violation[] = [];
+
+    Objects.entries(parsed.valuesWithFullPaths()).forEach(([path, value]) => {
+      let message = this.check(parse(path, separator), value);
+
+      if (message !== undefined) {
+        violations.push({path, message});
+      }
+    });
+
+    this.requiredPaths(this.root, []).forEach(v => {
+      if (parsed.valueAtNode(v).isFailure()) {
+        violations.push({path: join(v, separator), message: 'Missing value'});
+      }
+    });
+
+    return violations;
+  }
+
+  public validateValue(path: KeyPath, value: any): Undefined<string> {
+    return this.check(pathSegments(path, '.'), value);
+  }
+
+  public strict<T>(state: Type<T>): Type<T> {
+    return state
+      .cloneBuilder()
+      .withValueGuard((keys, value) => this.check(keys, value))
+      .build();
+  }
+
+  /**
+   * Find the schema of the values at some substate path.
+   * @param {string[]} keys An Array of substate keys.
+   * @returns {Undefined<ValueSchemas>} The value schemas.
+   */
+  private valuesAt(keys: string[]): Undefined<ValueSchemas> {
+    let node: Never<NodeSchema> = this.root;
+
+    for (let key of keys) {
+      node =
+        key !== valuesKey && node
+          ? (describedAt(node, key) as Never<NodeSchema>)
+          : undefined;
+    }
+
+    if (node !== undefined && node !== null) {
+      return (describedAt(node, valuesKey) as ValueSchemas) || {};
+    } else {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check a value at some full path.
+   * @param {string[]} keys An Array of keys.
+   * @param {*} value Any value.
+   * @returns {Undefined<string>} The reason the value is rejected, if any.
+   */
+  private check(keys: string[], value: any): Undefined<string> {
+    let actual = value === null ? undefined : value;
+
+    /// Paths into array/object values (e.g. todos.0.title) are checked
+    /// against the value that contains them.
+    for (let i = keys.length - 1; i >= 0; i--) {
+      let values = this.valuesAt(keys.slice(0, i));
+      let valueSchema = values && describedAt(values, keys[i]);
+
+      if (valueSchema !== undefined && i < keys.length - 1) {
+        return undefined;
+      } else if (valueSchema !== undefined) {
+        return this.matches(valueSchema, actual);
+      }
+    }
+
+    return this.options.allowUnknown ? undefined : 'Unexpected value';
+  }
+
+  /**
+   * Check a value against some value schema.
+   * @param {ValueSchema} valueSchema A ValueSchema instance.
+   * @param {*} value Any value.
+   * @returns {Undefined<string>} The reason the value is rejected, if any.
+   */
+  private matches(valueSchema: ValueSchema, value: any): Undefined<string> {
+    if (typeof valueSchema === 'function') {
+      return valueSchema(value) ? undefined : 'Invalid value';
+    }
+
+    let names = valueSchema instanceof Array ? valueSchema : [valueSchema];
+
+    if (names.some(v => matchesType(v, value))) {
+      return undefined;
+    } else if (value === undefined) {
+      return 'Missing value';
+    } else {
+      return `Expected ${names.join(' or ')}`;
+    }
+  }
+
+  /**
+   * Get the full paths of all values that must be present.
+   * @param {NodeSchema} node A NodeSchema instance.
+   * @param {string[]} keys The path of the node.
+   * @returns {string[][]} An Array of paths.
+   */
+  private requiredPaths(node: NodeSchema, keys: string[]): string[][] {
+    return Objects.entries(node)
+      .map(
+        ([key, child]): string[][] => {
+          if (child === undefined || child === null) {
+            return [];
+          } else if (key !== valuesKey) {
+            return this.requiredPaths(child as NodeSchema, keys.concat([key]));
+          } else {
+            return Objects.entries(child as ValueSchemas)
+              .filter(([_k, v]) => v !== undefined && v !== null)
+              .filter(([_k, v]) => this.matches(v!, undefined) !== undefined)
+              .map(([k]) => keys.concat([k]));
+          }
+        }
+      )
+      .reduce((acc, v) => acc.concat(v), []);
+  }
+}
+
+/**
+ * Create a schema from a description of the root state, whose 'values' key
+ * describes the root values and whose other keys describe substates, e.g.
+ * schema({user: {values: {name: 'string', age: ['number', 'undefined']}}}).
+ * @param {NodeSchema} root A NodeSchema instance.
+ * @param {Never<SchemaOptions>} options Optional schema options.
+ * @returns {Schema} A Schema instance.
+ */
+export function schema(
+  root: NodeSchema,
+  options?: Never<SchemaOptions>
+): Schema {
+  return new SchemaImpl(root, options || {});
+}
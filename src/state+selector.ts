@@ -0,0 +1,79 @@
+import {Never} from 'javascriptutilities';
+import {Type} from './state+main';
+import {KeyPath} from './state+path';
+
+export type Selector<T, R> = (state: Type<T>) => R;
+export type SelectorInput<T> = KeyPath | Selector<T, any>;
+
+export interface SelectorOptions {
+  /**
+   * The number of input combinations whose results are cached. Defaults to 1,
+   * i.e. only the last result is kept.
+   */
+  readonly cacheSize?: number;
+}
+
+interface CacheEntry<R> {
+  readonly inputs: any[];
+  readonly result: R;
+}
+
+/**
+ * Read the input for a selector from some state. Paths resolve to the value
+ * at that node if there is one, or the substate otherwise.
+ * @template T Generics parameter.
+ * @param {Type<T>} state A Type instance.
+ * @param {SelectorInput<T>} input A SelectorInput instance.
+ * @returns {*} The selected input.
+ */
+function readInput<T>(state: Type<T>, input: SelectorInput<T>): any {
+  if (typeof input === 'function') {
+    return input(state);
+  } else {
+    return state
+      .valueAtNode(input)
+      .map((v): T | Type<T> => v)
+      .catchError(() => state.substateAtNode(input).value).value;
+  }
+}
+
+/**
+ * Create a memoized selector. The inputs are read from the state with
+ * valueAtNode (or substateAtNode if there is no value at that path), or by
+ * calling other selectors, and the result is only recomputed when one of the
+ * inputs is no longer identical to a cached combination. Since unmodified
+ * substates are shared between states, identity checks are enough to detect
+ * changes.
+ * @template T Generics parameter.
+ * @template R Generics parameter.
+ * @param {SelectorInput<T>[]} inputs An Array of paths or selectors.
+ * @param {(...args: any[]) => R} combiner Selector function.
+ * @param {Never<SelectorOptions>} options Optional selector options.
+ * @returns {Selector<T, R>} A Selector instance.
+ */
+export function createSelector<T, R>(
+  inputs: SelectorInput<T>[],
+  combiner: (...args: any[]) => R,
+  options?: Never<SelectorOptions>
+): Selector<T, R> {
+  let cacheSize = Math.max((options && options.cacheSize) || 1, 1);
+  let cache: CacheEntry<R>[] = [];
+
+  return state => {
+    let values = inputs.map(v => readInput(state, v));
+
+    for (let i = 0; i < cache.length; i++) {
+      let entry = cache[i];
+
+      if (entry.inputs.every((v, j) => v === values[j])) {
+        /// Move the hit to the front so that it is evicted last.
+        cache = [entry].concat(cache.filter((_v, j) => j !== i));
+        return entry.result;
+      }
+    }
+
+    let result = combiner(...values);
+    cache = [{inputs: values, result}].concat(cache).slice(0, cacheSize);
+    return result;
+  };
+}
@@ -0,0 +1,384 @@
+import {JSObject, Never, Try} from 'javascriptutilities';
+import {Type, substateKey, valuesKey} from './state+main';
+import {join} from './state+path';
+import {builder, isContainer} from './state+utility';
+
+/// BigInt is not part of the compiler's lib yet, but may exist at runtime.
+declare let BigInt: (value: string) => any;
+
+/**
+ * Describes how instances of some class are serialized and revived. Instances
+ * are matched with instanceof, so revivers for subclasses should be listed
+ * before those for their superclasses.
+ * @template R Generics parameter.
+ */
+export interface Reviver<R> {
+  /**
+   * The type tag that identifies serialized instances. It must be the same
+   * when serializing and deserializing.
+   */
+  readonly tag: string;
+
+  readonly ctor: new (...args: any[]) => R;
+
+  /**
+   * Convert an instance to serializable data. By default, the own enumerable
+   * properties are copied.
+   */
+  readonly toJSON?: (value: R) => any;
+
+  /**
+   * Create an instance from the data produced by toJSON. By default, the data
+   * is copied onto a new object with the class prototype, without calling
+   * the constructor.
+   */
+  readonly fromJSON?: (json: any) => R;
+}
+
+export interface SerializeOptions {
+  readonly revivers?: Reviver<any>[];
+
+  /**
+   * The indentation passed to JSON.stringify.
+   */
+  readonly space?: number;
+}
+
+export interface DeserializeOptions {
+  readonly revivers?: Reviver<any>[];
+}
+
+/**
+ * The current format version. Documents with a higher version are rejected,
+ * while lower versions should remain readable.
+ */
+export let formatVersion = 1;
+
+let tagKey = '$type';
+let dataKey = 'value';
+
+interface Context {
+  readonly revivers: Reviver<any>[];
+  readonly separator: string;
+}
+
+/**
+ * Throw an error that mentions the path being processed.
+ * @param {string} message A string value.
+ * @param {string[]} path An Array of segments.
+ * @param {Context} context A Context instance.
+ */
+function fail(message: string, path: string[], context: Context): never {
+  let location = path.length > 0 ? join(path, context.separator) : 'root';
+  throw new Error(`${message} at ${location}`);
+}
+
+/**
+ * Check if a value is a plain object (but not an array).
+ * @param {*} value Any value.
+ * @returns {boolean} A boolean value.
+ */
+function isObject(value: any): boolean {
+  return isContainer(value) && !(value instanceof Array);
+}
+
+/**
+ * Create a tagged object for some value.
+ * @param {string} tag A string value.
+ * @param {*} data Any value.
+ * @returns {JSObject<any>} A JSObject instance.
+ */
+function tagged(tag: string, data: any): JSObject<any> {
+  return {[tagKey]: tag, [dataKey]: data};
+}
+
+/**
+ * Convert the own properties of an object to serializable data.
+ * @param {JSObject<any>} object A JSObject instance.
+ * @param {string[]} path An Array of segments.
+ * @param {Context} context A Context instance.
+ * @returns {JSObject<any>} A JSObject instance.
+ */
+function encodeObject(
+  object: JSObject<any>,
+  path: string[],
+  context: Context
+): JSObject<any> {
+  return Object.keys(object)
+    .map(v => ({[v]: encodeValue(object[v], path.concat([v]), context)}))
+    .reduce((acc, v) => Object.assign(acc, v), {});
+}
+
+/**
+ * Convert a value to serializable data, tagging values that JSON cannot
+ * represent by itself.
+ * @param {*} value Any value.
+ * @param {string[]} path An Array of segments.
+ * @param {Context} context A Context instance.
+ * @returns {*} Serializable data.
+ */
+function encodeValue(value: any, path: string[], context: Context): any {
+  let type = typeof value as string;
+
+  if (value === undefined || value === null || type === 'boolean') {
+    return value;
+  } else if (type === 'string') {
+    return value;
+  } else if (type === 'number') {
+    return isFinite(value) ? value : tagged('Number', String(value));
+  } else if (type === 'bigint') {
+    return tagged('BigInt', value.toString());
+  } else if (type !== 'object') {
+    return fail(`Cannot serialize ${type}`, path, context);
+  } else if (value instanceof Array) {
+    return value.map((v, i) => encodeValue(v, path.concat([`${i}`]), context));
+  } else if (value instanceof Date) {
+    return tagged('Date', value.toISOString());
+  } else if (value instanceof Map) {
+    let entries: [any, any][] = [];
+    value.forEach((v, k) => entries.push([k, v]));
+    return tagged('Map', encodeValue(entries, path, context));
+  } else if (value instanceof Set) {
+    let values: any[] = [];
+    value.forEach(v => values.push(v));
+    return tagged('Set', encodeValue(values, path, context));
+  }
+
+  let reviver = context.revivers.filter(v => value instanceof v.ctor)[0];
+
+  if (reviver !== undefined) {
+    let data = reviver.toJSON
+      ? reviver.toJSON(value)
+      : Object.assign({}, value);
+    return tagged(reviver.tag, encodeValue(data, path, context));
+  } else if (!isContainer(value)) {
+    let name = value.constructor ? value.constructor.name : 'object';
+    return fail(`No reviver registered for ${name}`, path, context);
+  } else if (value.hasOwnProperty(tagKey)) {
+    /// Plain objects that look like tagged values must be tagged as well.
+    return tagged('Object', encodeObject(value, path, context));
+  } else {
+    return encodeObject(value, path, context);
+  }
+}
+
+/**
+ * Revive the own properties of an object from serialized data.
+ * @param {JSObject<any>} json A JSObject instance.
+ * @param {string[]} path An Array of segments.
+ * @param {Context} context A Context instance.
+ * @returns {JSObject<any>} A JSObject instance.
+ */
+function decodeObject(
+  json: JSObject<any>,
+  path: string[],
+  context: Context
+): JSObject<any> {
+  return Object.keys(json)
+    .map(v => ({[v]: decodeValue(json[v], path.concat([v]), context)}))
+    .reduce((acc, v) => Object.assign(acc, v), {});
+}
+
+/**
+ * Revive a value from serialized data.
+ * @param {*} json Serialized data.
+ * @param {string[]} path An Array of segments.
+ * @param {Context} context A Context instance.
+ * @returns {*} The revived value.
+ */
+function decodeValue(json: any, path: string[], context: Context): any {
+  if (json instanceof Array) {
+    return json.map((v, i) => decodeValue(v, path.concat([`${i}`]), context));
+  } else if (!(json instanceof Object)) {
+    return json;
+  } else if (!json.hasOwnProperty(tagKey)) {
+    return decodeObject(json, path, context);
+  }
+
+  let tag = json[tagKey];
+  let data = json[dataKey];
+  let reviver = context.revivers.filter(v => v.tag === tag)[0];
+
+  if (reviver !== undefined) {
+    let decoded = decodeValue(data, path, context);
+
+    if (reviver.fromJSON) {
+      return reviver.fromJSON(decoded);
+    } else {
+      return Object.assign(Object.create(reviver.ctor.prototype), decoded);
+    }
+  }
+
+  switch (tag) {
+    case 'Object':
+      if (!isObject(data)) {
+        return fail('Invalid tagged object', path, context);
+      }
+
+      return decodeObject(data, path, context);
+
+    case 'Number':
+      return Number(data);
+
+    case 'BigInt':
+      if (typeof BigInt === 'undefined') {
+        return fail('BigInt is not supported', path, context);
+      }
+
+      return BigInt(data);
+
+    case 'Date':
+      let date = new Date(data);
+
+      if (isNaN(date.getTime())) {
+        return fail(`Invalid date ${JSON.stringify(data)}`, path, context);
+      }
+
+      return date;
+
+    case 'Map':
+      let entries = decodeValue(data, path, context);
+
+      if (!(entries instanceof Array)) {
+        return fail('Invalid Map entries', path, context);
+      }
+
+      return new Map(entries);
+
+    case 'Set':
+      let values = decodeValue(data, path, context);
+
+      if (!(values instanceof Array)) {
+        return fail('Invalid Set values', path, context);
+      }
+
+      return new Set(values);
+
+    default:
+      return fail(`No reviver registered for type ${tag}`, path, context);
+  }
+}
+
+/**
+ * Convert a state tree to serializable data.
+ * @template T Generics parameter.
+ * @param {Type<T>} state A Type instance.
+ * @param {string[]} path An Array of segments.
+ * @param {Context} context A Context instance.
+ * @returns {JSObject<any>} A JSObject instance.
+ */
+function encodeState<T>(
+  state: Type<T>,
+  path: string[],
+  context: Context
+): JSObject<any> {
+  let values = state.values;
+  let substate = state.substate;
+
+  return {
+    [valuesKey]: encodeObject(values, path, context),
+    [substateKey]: Object.keys(substate)
+      .map(v => ({[v]: encodeState(substate[v]!, path.concat([v]), context)}))
+      .reduce((acc, v) => Object.assign(acc, v), {}),
+  };
+}
+
+/**
+ * Revive a state tree from serialized data.
+ * @template T Generics parameter.
+ * @param {*} json Serialized data.
+ * @param {string[]} path An Array of segments.
+ * @param {Context} context A Context instance.
+ * @returns {Type<T>} A Type instance.
+ */
+function decodeState<T>(json: any, path: string[], context: Context): Type<T> {
+  if (!isObject(json)) {
+    return fail('Invalid state, expected an object', path, context);
+  } else if (!isObject(json[valuesKey])) {
+    return fail('Invalid state values, expected an object', path, context);
+  } else if (!isObject(json[substateKey])) {
+    return fail('Invalid substates, expected an object', path, context);
+  }
+
+  let values = decodeObject(json[valuesKey], path, context);
+
+  let substate = Object.keys(json[substateKey])
+    .map(v => ({
+      [v]: decodeState<T>(json[substateKey][v], path.concat([v]), context),
+    }))
+    .reduce((acc, v) => Object.assign(acc, v), {});
+
+  return builder<T>()
+    .withValues(values)
+    .withSubstate(substate)
+    .withSubstateSeparator(context.separator)
+    .build();
+}
+
+/**
+ * Serialize a state to a JSON string, with a format version header and the
+ * substate separator. Dates, Maps, Sets, BigInts, non-finite numbers and
+ * instances of classes with registered revivers are tagged so that they can
+ * be revived by deserialize.
+ * @template T Generics parameter.
+ * @param {Type<T>} state A Type instance.
+ * @param {Never<SerializeOptions>} options Optional serialize options.
+ * @returns {Try<string>} A Try string instance.
+ */
+export function serialize<T>(
+  state: Type<T>,
+  options?: Never<SerializeOptions>
+): Try<string> {
+  let separator = state.substateSeparator;
+  let revivers = (options && options.revivers) || [];
+  let space = (options && options.space) || undefined;
+
+  return Try.evaluate(() => {
+    let encoded = encodeState(state, [], {revivers, separator});
+    let document = {version: formatVersion, separator, state: encoded};
+    return JSON.stringify(document, undefined, space);
+  });
+}
+
+/**
+ * Deserialize a state from a JSON string produced by serialize. Instances of
+ * custom classes are only revived if a reviver with the same tag is given.
+ * @template T Generics parameter.
+ * @param {string} json A string value.
+ * @param {Never<DeserializeOptions>} options Optional deserialize options.
+ * @returns {Try<Type<T>>} A Try Type instance.
+ */
+export function deserialize<T>(
+  json: string,
+  options?: Never<DeserializeOptions>
+): Try<Type<T>> {
+  let revivers = (options && options.revivers) || [];
+
+  return Try.evaluate(() => {
+    let document: any;
+
+    try {
+      document = JSON.parse(json);
+    } catch (e) {
+      throw new Error(`Invalid JSON: ${e.message}`);
+    }
+
+    if (!isObject(document)) {
+      throw new Error('Invalid document, expected an object');
+    }
+
+    let {version, separator, state} = document;
+
+    if (typeof version !== 'number') {
+      throw new Error('Missing format version');
+    } else if (version > formatVersion) {
+      throw new Error(
+        `Unsupported format version ${version}, expected at most ${formatVersion}`
+      );
+    } else if (typeof separator !== 'string' || separator.length === 0) {
+      throw new Error('Missing substate separator');
+    }
+
+    return decodeState<T>(state, [], {revivers, separator});
+  });
+}
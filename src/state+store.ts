@@ -0,0 +1,109 @@
+import {Try} from 'javascriptutilities';
+import {Type} from './state+main';
+import {KeyPath} from './state+path';
+
+/**
+ * Represents a change at some path, with the values and substates found at
+ * that path before and after the update.
+ * @template T Generics parameter.
+ */
+export interface PathChange<T> {
+  readonly path: KeyPath;
+  readonly oldValue: Try<T>;
+  readonly newValue: Try<T>;
+  readonly oldSubstate: Try<Type<T>>;
+  readonly newSubstate: Try<Type<T>>;
+}
+
+export type StoreListener<T> = (change: PathChange<T>) => void;
+
+/**
+ * Represents a container for the current state that notifies listeners when
+ * the value or substate at the paths they subscribed to changes.
+ * @template T Generics parameter.
+ */
+export interface Store<T> {
+  readonly state: Type<T>;
+
+  /**
+   * Update the current state with the modify methods of the state, e.g.
+   * store.update(v => v.updatingValue('a.b', 1)).
+   * @param {(state: Type<T>) => Type<T>} fn Selector function.
+   */
+  update(fn: (state: Type<T>) => Type<T>): void;
+
+  /**
+   * Replace the current state.
+   * @param {Type<T>} state A Type instance.
+   */
+  replace(state: Type<T>): void;
+
+  /**
+   * Listen to changes at some path. The listener is only notified when the
+   * value or substate at that path is no longer equal to the previous one.
+   * @param {KeyPath} path A KeyPath instance.
+   * @param {StoreListener<T>} listener A StoreListener instance.
+   * @returns {() => void} A function that removes the listener.
+   */
+  subscribe(path: KeyPath, listener: StoreListener<T>): () => void;
+}
+
+interface Subscription<T> {
+  readonly path: KeyPath;
+  readonly listener: StoreListener<T>;
+}
+
+class StoreImpl<T> implements Store<T> {
+  private subscriptions: Subscription<T>[];
+
+  public constructor(public state: Type<T>) {
+    this.subscriptions = [];
+  }
+
+  public update(fn: (state: Type<T>) => Type<T>): void {
+    this.replace(fn(this.state));
+  }
+
+  public replace(state: Type<T>): void {
+    let oldState = this.state;
+    this.state = state;
+
+    if (oldState === state) {
+      return;
+    }
+
+    this.subscriptions.slice().forEach(({path, listener}) => {
+      if (
+        !oldState.equalsForValues(state, [path]) ||
+        !oldState.equalsForSubstates(state, [path])
+      ) {
+        listener({
+          path,
+          oldValue: oldState.valueAtNode(path),
+          newValue: state.valueAtNode(path),
+          oldSubstate: oldState.substateAtNode(path),
+          newSubstate: state.substateAtNode(path),
+        });
+      }
+    });
+  }
+
+  public subscribe(path: KeyPath, listener: StoreListener<T>): () => void {
+    let subscription = {path, listener};
+    this.subscriptions.push(subscription);
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter(v => v !== subscription);
+    };
+  }
+}
+
+/**
+ * Create a new store with an initial state.
+ * @template T Generics parameter.
+ * @param {Type<T>} initial A Type instance.
+ * @returns {Store<T>} A Store instance.
+ */
+export function store<T>(initial: Type<T>): Store<T> {
+  return new StoreImpl(initial);
+}
@@ -0,0 +1,235 @@
+import {JSObject} from 'javascriptutilities';
+import {Impl, Type} from './state+main';
+import {KeyPath, join} from './state+path';
+import {empty, fromState, pathSegments} from './state+utility';
+
+declare module './state+main' {
+  export interface Type<T> {
+    /**
+     * Move every value to the full path returned by some function. Values
+     * whose new paths collide cause an error instead of overwriting each
+     * other.
+     * @param {(path: string) => string} fn The function that maps full paths
+     * (see valuesWithFullPaths).
+     * @returns {Type<T>} A Type instance.
+     */
+    mappingKeys(fn: (path: string) => string): Type<T>;
+
+    /**
+     * Rename the substate at some path, keeping its content and its position
+     * among its siblings. An error is thrown if a sibling already has the new
+     * key.
+     * @param {KeyPath} from A KeyPath instance.
+     * @param {string} to The new key of the substate.
+     * @returns {Type<T>} A Type instance.
+     */
+    renamingSubstate(from: KeyPath, to: string): Type<T>;
+
+    /**
+     * Replace the substate at some path with its values and substates, which
+     * are hoisted into its parent. An error is thrown if the parent already
+     * has any of their keys.
+     * @param {KeyPath} id A KeyPath instance.
+     * @returns {Type<T>} A Type instance.
+     */
+    flatteningSubstate(id: KeyPath): Type<T>;
+
+    /**
+     * Move the values of the current state (but not its substates) into the
+     * substate at some path, which is created if necessary. An error is thrown
+     * if that substate already has any of their keys.
+     * @param {KeyPath} prefix A KeyPath instance.
+     * @returns {Type<T>} A Type instance.
+     */
+    nestingValues(prefix: KeyPath): Type<T>;
+  }
+
+  export interface Impl<T> extends Type<T> {}
+}
+
+/**
+ * Create the error for keys that would be overwritten.
+ * @param {string[]} paths The conflicting paths.
+ * @returns {Error} An Error instance.
+ */
+function conflictError(paths: string[]): Error {
+  return new Error(`Conflicting keys at ${paths.join(', ')}`);
+}
+
+/**
+ * Replace the substate at some path (or the state itself if the path is
+ * empty) with the result of some function. Nothing changes if there is no
+ * such substate.
+ * @template T Generics parameter.
+ * @param {Impl<T>} state An Impl instance.
+ * @param {string[]} keys An Array of keys.
+ * @param {(node: Impl<T>) => Type<T>} fn The function that updates the node.
+ * @returns {Type<T>} A Type instance.
+ */
+function updatingNode<T>(
+  state: Impl<T>,
+  keys: string[],
+  fn: (node: Impl<T>) => Type<T>
+): Type<T> {
+  if (keys.length === 0) {
+    return fn(state);
+  }
+
+  let node = state.substateAtNode(keys).map(v => fromState(v) as Impl<T>);
+
+  /// The function runs outside the Try so that conflict errors are thrown.
+  if (node.isFailure()) {
+    return state;
+  }
+
+  let updated = fn(node.value!);
+  return updated !== node.value ? state.updatingSubstate(keys, updated) : state;
+}
+
+Impl.prototype.mappingKeys = function<T>(
+  fn: (path: string) => string
+): Type<T> {
+  let entries = this.reducingValues<[string, string, T][]>(
+    (acc, k, v) => acc.concat([[k, fn(k), v]]),
+    []
+  );
+
+  let counts: JSObject<number> = {};
+  entries.forEach(([_src, dest]) => (counts[dest] = (counts[dest] || 0) + 1));
+  let conflicts = Object.keys(counts).filter(v => counts[v]! > 1);
+
+  if (conflicts.length > 0) {
+    throw conflictError(conflicts);
+  } else if (entries.every(([src, dest]) => src === dest)) {
+    return this;
+  }
+
+  /// The result is built separately, since the current state may be a draft
+  /// that is updated in place and whose values must not be lost.
+  return this._guardingChanges(() =>
+    empty<T>(this.substateSeparator).withMutations(draft => {
+      entries.forEach(([_src, dest, v]) => draft.updatingValue(dest, v));
+    })
+  );
+};
+
+Impl.prototype.renamingSubstate = function<T>(
+  from: KeyPath,
+  to: string
+): Type<T> {
+  let separator = this.substateSeparator;
+  let keys = pathSegments(from, separator);
+  let parentKeys = keys.slice(0, -1);
+  let key = keys[keys.length - 1];
+
+  if (key === undefined || key === to) {
+    return this;
+  }
+
+  return this._guardingChanges(state =>
+    updatingNode(state, parentKeys, parent => {
+      if (!parent._substate.has(key)) {
+        return parent;
+      } else if (parent._substate.has(to)) {
+        throw conflictError([join(parentKeys.concat([to]), separator)]);
+      }
+
+      /// The entries are read first, since a draft parent is cleared in place.
+      let entries = parent._substate.entries();
+      let builder = parent.editingBuilder().withSubstate({});
+
+      entries.forEach(([k, v]) => {
+        builder.updateSubstate(k === key ? to : k, v);
+      });
+
+      return builder.build();
+    })
+  );
+};
+
+Impl.prototype.flatteningSubstate = function<T>(id: KeyPath): Type<T> {
+  let separator = this.substateSeparator;
+  let keys = pathSegments(id, separator);
+  let parentKeys = keys.slice(0, -1);
+  let key = keys[keys.length - 1];
+
+  if (key === undefined) {
+    return this;
+  }
+
+  return this._guardingChanges(state =>
+    updatingNode(state, parentKeys, parent => {
+      let substate = parent._substate.get(key);
+
+      if (substate === undefined || substate === null) {
+        return parent;
+      }
+
+      let child = fromState(substate) as Impl<T>;
+
+      let conflicts = child._values
+        .keys()
+        .filter(k => parent._values.has(k))
+        .concat(
+          child._substate
+            .keys()
+            .filter(k => k !== key && parent._substate.has(k))
+        );
+
+      if (conflicts.length > 0) {
+        throw conflictError(
+          conflicts.map(k => join(parentKeys.concat([k]), separator))
+        );
+      }
+
+      let entries = parent._substate.entries();
+      let builder = parent.editingBuilder().withSubstate({});
+
+      child._values.entries().forEach(([k, v]) => builder.updateValue(k, v));
+
+      /// The hoisted substates take the place of the flattened substate.
+      entries.forEach(([k, v]) => {
+        if (k === key) {
+          child._substate
+            .entries()
+            .forEach(([k1, v1]) => builder.updateSubstate(k1, v1));
+        } else {
+          builder.updateSubstate(k, v);
+        }
+      });
+
+      return builder.build();
+    })
+  );
+};
+
+Impl.prototype.nestingValues = function<T>(prefix: KeyPath): Type<T> {
+  let separator = this.substateSeparator;
+  let keys = pathSegments(prefix, separator);
+
+  if (keys.length === 0 || !this.hasValues()) {
+    return this;
+  }
+
+  let substate = this.substateAtNode(keys)
+    .map(v => fromState(v) as Impl<T>)
+    .getOrElse(empty<T>(separator) as Impl<T>);
+
+  let conflicts = this._values.keys().filter(k => substate._values.has(k));
+
+  if (conflicts.length > 0) {
+    throw conflictError(conflicts.map(k => join(keys.concat([k]), separator)));
+  }
+
+  return this._guardingChanges(state => {
+    let entries = state._values.entries();
+    let builder = substate.editingBuilder();
+    entries.forEach(([k, v]) => builder.updateValue(k, v));
+
+    return state
+      .editingBuilder()
+      .withValues({})
+      .build()
+      .updatingSubstate(keys, builder.build());
+  });
+};
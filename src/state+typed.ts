@@ -0,0 +1,198 @@
+import {Never, Try, TryResult} from 'javascriptutilities';
+import {StateType, Type} from './state+main';
+import {fromKeyValue} from './state+utility';
+
+/**
+ * The schema types that are stored as values. Any other object type describes
+ * a substate, so plain object values cannot be described.
+ */
+export type Leaf =
+  | boolean
+  | number
+  | string
+  | symbol
+  | null
+  | undefined
+  | any[]
+  | Date
+  | Map<any, any>
+  | Set<any>
+  | Function;
+
+/**
+ * The keys of a schema node. Leaves have none, so paths stop at them.
+ */
+export type KeyOf<S> = S extends Leaf
+  ? never
+  : S extends object ? Extract<keyof S, string> : never;
+
+/**
+ * The type at some key of a schema node, which includes undefined if the node
+ * itself is optional.
+ */
+export type ValueOf<S, K> = S extends any
+  ? K extends keyof S ? S[K] : undefined
+  : never;
+
+/**
+ * The keys of a schema node that hold values.
+ */
+export type LeafKeyOf<S> = {
+  [K in KeyOf<S>]: ValueOf<S, K> extends Leaf ? K : never
+}[KeyOf<S>];
+
+/**
+ * The keys of a schema node that hold substates, which may be optional.
+ */
+export type NodeKeyOf<S> = {
+  [K in KeyOf<S>]: NonNullable<ValueOf<S, K>> extends Leaf ? never : K
+}[KeyOf<S>];
+
+/**
+ * The methods whose key paths are checked against the schema.
+ */
+export type TypedMethod =
+  | 'mappingValue'
+  | 'substateAtNode'
+  | 'updatingValue'
+  | 'valueAtNode';
+
+/**
+ * Represents a view of a state whose layout is described by a schema, e.g.
+ * Typed<{user: {name: string}, cart: {total: number}}>. The key paths of the
+ * methods below are tuples of schema keys, so that the value type at each
+ * path is inferred and misspelled keys, wrong value types and paths that
+ * confuse values with substates do not compile. Paths up to 4 keys long are
+ * supported. String paths such as 'user.name' are rejected, because their
+ * keys cannot be told apart at compile time. The other methods are those of
+ * Type<any>, so their results must be viewed with typed() again.
+ * @template S Generics parameter.
+ */
+export interface Typed<S>
+  extends Pick<Type<any>, Exclude<keyof Type<any>, TypedMethod>> {
+  valueAtNode<K1 extends LeafKeyOf<S>>(path: [K1]): Try<ValueOf<S, K1>>;
+
+  valueAtNode<K1 extends NodeKeyOf<S>, K2 extends LeafKeyOf<ValueOf<S, K1>>>(
+    path: [K1, K2]
+  ): Try<ValueOf<ValueOf<S, K1>, K2>>;
+
+  valueAtNode<
+    K1 extends NodeKeyOf<S>,
+    K2 extends NodeKeyOf<ValueOf<S, K1>>,
+    K3 extends LeafKeyOf<ValueOf<ValueOf<S, K1>, K2>>
+  >(
+    path: [K1, K2, K3]
+  ): Try<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>>;
+
+  valueAtNode<
+    K1 extends NodeKeyOf<S>,
+    K2 extends NodeKeyOf<ValueOf<S, K1>>,
+    K3 extends NodeKeyOf<ValueOf<ValueOf<S, K1>, K2>>,
+    K4 extends LeafKeyOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>>
+  >(
+    path: [K1, K2, K3, K4]
+  ): Try<ValueOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>, K4>>;
+
+  substateAtNode<K1 extends NodeKeyOf<S>>(
+    path: [K1]
+  ): Try<Typed<NonNullable<ValueOf<S, K1>>>>;
+
+  substateAtNode<K1 extends NodeKeyOf<S>, K2 extends NodeKeyOf<ValueOf<S, K1>>>(
+    path: [K1, K2]
+  ): Try<Typed<NonNullable<ValueOf<ValueOf<S, K1>, K2>>>>;
+
+  substateAtNode<
+    K1 extends NodeKeyOf<S>,
+    K2 extends NodeKeyOf<ValueOf<S, K1>>,
+    K3 extends NodeKeyOf<ValueOf<ValueOf<S, K1>, K2>>
+  >(
+    path: [K1, K2, K3]
+  ): Try<Typed<NonNullable<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>>>>;
+
+  substateAtNode<
+    K1 extends NodeKeyOf<S>,
+    K2 extends NodeKeyOf<ValueOf<S, K1>>,
+    K3 extends NodeKeyOf<ValueOf<ValueOf<S, K1>, K2>>,
+    K4 extends NodeKeyOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>>
+  >(
+    path: [K1, K2, K3, K4]
+  ): Try<
+    Typed<NonNullable<ValueOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>, K4>>>
+  >;
+
+  updatingValue<K1 extends LeafKeyOf<S>>(
+    path: [K1],
+    value: ValueOf<S, K1>
+  ): Typed<S>;
+
+  updatingValue<K1 extends NodeKeyOf<S>, K2 extends LeafKeyOf<ValueOf<S, K1>>>(
+    path: [K1, K2],
+    value: ValueOf<ValueOf<S, K1>, K2>
+  ): Typed<S>;
+
+  updatingValue<
+    K1 extends NodeKeyOf<S>,
+    K2 extends NodeKeyOf<ValueOf<S, K1>>,
+    K3 extends LeafKeyOf<ValueOf<ValueOf<S, K1>, K2>>
+  >(
+    path: [K1, K2, K3],
+    value: ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>
+  ): Typed<S>;
+
+  updatingValue<
+    K1 extends NodeKeyOf<S>,
+    K2 extends NodeKeyOf<ValueOf<S, K1>>,
+    K3 extends NodeKeyOf<ValueOf<ValueOf<S, K1>, K2>>,
+    K4 extends LeafKeyOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>>
+  >(
+    path: [K1, K2, K3, K4],
+    value: ValueOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>, K4>
+  ): Typed<S>;
+
+  mappingValue<K1 extends LeafKeyOf<S>>(
+    path: [K1],
+    fn: (v: Try<ValueOf<S, K1>>) => TryResult<ValueOf<S, K1>>
+  ): Typed<S>;
+
+  mappingValue<K1 extends NodeKeyOf<S>, K2 extends LeafKeyOf<ValueOf<S, K1>>>(
+    path: [K1, K2],
+    fn: (
+      v: Try<ValueOf<ValueOf<S, K1>, K2>>
+    ) => TryResult<ValueOf<ValueOf<S, K1>, K2>>
+  ): Typed<S>;
+
+  mappingValue<
+    K1 extends NodeKeyOf<S>,
+    K2 extends NodeKeyOf<ValueOf<S, K1>>,
+    K3 extends LeafKeyOf<ValueOf<ValueOf<S, K1>, K2>>
+  >(
+    path: [K1, K2, K3],
+    fn: (
+      v: Try<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>>
+    ) => TryResult<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>>
+  ): Typed<S>;
+
+  mappingValue<
+    K1 extends NodeKeyOf<S>,
+    K2 extends NodeKeyOf<ValueOf<S, K1>>,
+    K3 extends NodeKeyOf<ValueOf<ValueOf<S, K1>, K2>>,
+    K4 extends LeafKeyOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>>
+  >(
+    path: [K1, K2, K3, K4],
+    fn: (
+      v: Try<ValueOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>, K4>>
+    ) => TryResult<ValueOf<ValueOf<ValueOf<ValueOf<S, K1>, K2>, K3>, K4>>
+  ): Typed<S>;
+}
+
+/**
+ * View some state through a schema. Nothing is checked at runtime, so the
+ * state must already have the described layout (see schema() for runtime
+ * validation).
+ * @template S Generics parameter.
+ * @param {Never<StateType<any>>} state A StateType instance.
+ * @returns {Typed<S>} A Typed instance.
+ */
+export function typed<S>(state: Never<StateType<any>>): Typed<S> {
+  return fromKeyValue(state) as Typed<S>;
+}
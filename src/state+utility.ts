@@ -1,13 +1,16 @@
-import {Collections, Never, Objects, Types} from 'javascriptutilities';
+import {Collections, Never, Objects, Try, Types} from 'javascriptutilities';
 import {
   Builder,
   Impl,
   StateType,
   Type,
+  UpdateFn,
   valuesKey,
   substateKey,
 } from './state+main';
 
+import {KeyPath, defaultSeparator, join, parse} from './state+path';
+
 /**
  * Separate a full path into substate and value components.
  * @param {string} path A string value.
@@ -18,12 +21,134 @@ export function separateSubstateAndValuePaths(
   path: string,
   sp: string
 ): [string, string] {
-  let separated = path.split(sp);
+  let separated = parse(path, sp);
   let last = Collections.last(separated);
-  let rest = separated.slice(0, separated.length - 1).join(sp);
+  let rest = join(separated.slice(0, separated.length - 1), sp);
   return last.map((v): [string, string] => [rest, v]).getOrElse(['', '']);
 }
 
+/**
+ * Get the segments of some path. String paths are parsed with escapes and
+ * bracket indexes (see Path.parse), while Arrays are taken as they are.
+ * @param {KeyPath} path A KeyPath instance.
+ * @param {string} sp A string value.
+ * @returns {string[]} An Array of segments.
+ */
+export function pathSegments(path: KeyPath, sp: string): string[] {
+  if (path instanceof Array) {
+    return path.slice();
+  } else {
+    return parse(path, sp);
+  }
+}
+
+/**
+ * Get the string form of some path, e.g. for error messages.
+ * @param {KeyPath} path A KeyPath instance.
+ * @param {string} sp A string value.
+ * @returns {string} A string value.
+ */
+export function pathString(path: KeyPath, sp: string): string {
+  return path instanceof Array ? join(path, sp) : path;
+}
+
+/**
+ * Check if a value is an array or a plain object, i.e. something whose
+ * elements can be addressed with paths.
+ * @param {*} value Any value.
+ * @returns {boolean} A boolean value.
+ */
+export function isContainer(value: any): boolean {
+  return (
+    value instanceof Array ||
+    (value instanceof Object &&
+      Object.getPrototypeOf(value) === Object.prototype)
+  );
+}
+
+/**
+ * Get the element of an array or plain object at some key.
+ * @param {*} container An array or plain object.
+ * @param {string} key A string value.
+ * @returns {*} The element at the key, or undefined if there is none.
+ */
+function elementAt(container: any, key: string): any {
+  if (container instanceof Array) {
+    return /^\d+$/.test(key) ? container[parseInt(key, 10)] : undefined;
+  } else if (isContainer(container) && container.hasOwnProperty(key)) {
+    return container[key];
+  } else {
+    return undefined;
+  }
+}
+
+/**
+ * Get the value nested within arrays/plain objects at some keys.
+ * @param {*} container An array or plain object.
+ * @param {string[]} keys An Array of keys.
+ * @returns {Try<any>} A Try instance.
+ */
+export function valueInContainer(container: any, keys: string[]): Try<any> {
+  return Try.unwrap(keys.reduce((acc, v) => elementAt(acc, v), container));
+}
+
+/**
+ * Update the value nested within arrays/plain objects at some keys. Every
+ * array/object on the way is copied, so the original container is not
+ * modified. If the update function does not produce a value, the element is
+ * removed (array elements after it are shifted).
+ * @param {*} container An array or plain object.
+ * @param {string[]} keys An Array of keys.
+ * @param {UpdateFn<any>} fn Selector function.
+ * @returns {*} The updated container.
+ */
+export function updateInContainer(
+  container: any,
+  keys: string[],
+  fn: UpdateFn<any>
+): any {
+  let key = keys[0];
+  let rest = keys.slice(1);
+  let oldValue = elementAt(container, key);
+
+  let newValue =
+    rest.length > 0
+      ? updateInContainer(oldValue, rest, fn)
+      : Try.evaluate(() => fn(Try.unwrap(oldValue))).value;
+
+  let hasValue = newValue !== undefined && newValue !== null;
+
+  if (container instanceof Array) {
+    let index = /^\d+$/.test(key) ? parseInt(key, 10) : -1;
+
+    if (index < 0 || index > container.length) {
+      throw new Error(`Invalid index ${key}`);
+    }
+
+    let array = container.slice();
+
+    if (hasValue) {
+      array[index] = newValue;
+    } else if (index < array.length) {
+      array.splice(index, 1);
+    }
+
+    return array;
+  } else if (isContainer(container)) {
+    let object = Object.assign({}, container);
+
+    if (hasValue) {
+      object[key] = newValue;
+    } else {
+      delete object[key];
+    }
+
+    return object;
+  } else {
+    throw new Error(`Cannot update ${key} of ${container}`);
+  }
+}
+
 /**
  * Get a new Builder.
  * @template T Generics parameter.
@@ -36,61 +161,84 @@ export function builder<T>(): Builder<T> {
 /**
  * Get an empty state.
  * @template T Generics parameter.
+ * @param {string} [separator] Optional substate separator, '.' by default.
  * @returns {Type<T>} A Type instance.
  */
-export function empty<T>(): Type<T> {
-  return builder<T>().build();
+export function empty<T>(separator?: string): Type<T> {
+  return builder<T>()
+    .withSubstateSeparator(separator || defaultSeparator)
+    .build();
 }
 
 /**
- * Build a state from another state.
+ * Build a state from another state. The separator of the resulting tree is
+ * the specified one, or that of the original state if none is given.
  * @template T Generics parameter.
  * @param {Never<Type<T>>} state A Type instance.
+ * @param {string} [separator] Optional substate separator.
  * @returns {Type<T>} A Type instance.
  */
-export function fromState<T>(state: Never<Type<T>>): Type<T> {
+export function fromState<T>(
+  state: Never<Type<T>>,
+  separator?: string
+): Type<T> {
   if (state === undefined || state === null) {
-    return empty<T>();
+    return empty<T>(separator);
   }
+
+  let sp = separator || state.substateSeparator || defaultSeparator;
+
   if (state instanceof Impl) {
-    return state;
+    return state.withSeparator(sp);
   } else {
     let values = state.values || {};
     let substate = state.substate || {};
 
     let substates = Objects.entries(substate)
-      .map(v => ({[v[0]]: fromState(v[1])}))
-      .reduce((v1, v2) => Object.assign({}, v1, v2), {});
+      .map(v => ({[v[0]]: fromState(v[1], sp)}))
+      .reduce((acc, v) => Object.assign(acc, v), {});
 
     return builder<T>()
       .withValues(values)
       .withSubstate(substates)
+      .withSubstateSeparator(sp)
       .build();
   }
 }
 
 /**
- * Build a state from a possible state.
+ * Build a state from a possible state. The separator of the resulting tree is
+ * the specified one, or that of the original state if none is given.
  * @param {Never<StateType<any>>} state A StateType instance.
+ * @param {string} [separator] Optional substate separator.
  * @returns {Type<T>} A Type instance.
  */
-export function fromKeyValue(state: Never<StateType<any>>): Type<any> {
+export function fromKeyValue(
+  state: Never<StateType<any>>,
+  separator?: string
+): Type<any> {
   if (state === undefined || state === null) {
-    return empty<any>();
+    return empty<any>(separator);
   }
   if (Types.isInstance<Type<any>>(state, 'values', 'substate')) {
-    return fromState(state);
+    return fromState(state, separator);
   } else {
     let _values = state['_' + valuesKey] || {};
     let _substates = state['_' + substateKey] || {};
+    let _separator = state._substateSeparator;
+
+    let sp =
+      separator ||
+      (typeof _separator === 'string' ? _separator : defaultSeparator);
 
     let _substate = Objects.entries<any>(_substates)
-      .map(v => ({[v[0]]: fromKeyValue(v[1])}))
-      .reduce((v1, v2) => Object.assign({}, v1, v2), {});
+      .map(v => ({[v[0]]: fromKeyValue(v[1], sp)}))
+      .reduce((acc, v) => Object.assign(acc, v), {});
 
     return builder<any>()
       .withValues(_values)
       .withSubstate(_substate)
+      .withSubstateSeparator(sp)
       .build();
   }
 }
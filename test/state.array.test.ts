@@ -0,0 +1,52 @@
+import {State} from './../src';
+
+describe('State array paths should be implemented correctly', () => {
+  let todos = [{title: 'a', tags: ['x']}, {title: 'b', tags: []}];
+  let state = State.empty<any>().updatingValue('list.todos', todos);
+
+  it('Accessing array elements - should work with both path styles', () => {
+    /// Setup & When & Then
+    expect(state.valueAtNode('list.todos.0.title').value).toBe('a');
+    expect(state.valueAtNode('list.todos[1].title').value).toBe('b');
+    expect(state.valueAtNode('list.todos[0].tags[0]').value).toBe('x');
+    expect(state.stringAtNode('list.todos.1.title').value).toBe('b');
+    expect(state.valueAtNode('list.todos.2.title').isFailure()).toBeTruthy();
+    expect(state.valueAtNode('list.todos.a').isFailure()).toBeTruthy();
+  });
+
+  it('Updating array elements - should copy arrays on the path', () => {
+    /// Setup & When
+    let state1 = state.updatingValue('list.todos[0].title', 'c');
+    let state2 = state.removingValue('list.todos.0');
+    let state3 = state.updatingValue('list.todos.5.title', 'd');
+
+    /// Then
+    expect(state1.valueAtNode('list.todos.0.title').value).toBe('c');
+    expect(state1.valueAtNode('list.todos.1').value).toBe(todos[1]);
+    expect(state2.valueAtNode('list.todos.0.title').value).toBe('b');
+    expect(state3).toBe(state);
+    expect(todos[0].title).toBe('a');
+    expect(state.valueAtNode('list.todos.0.title').value).toBe('a');
+  });
+
+  it('Array operations - should not modify original arrays', () => {
+    /// Setup & When
+    let pushed = state.pushingValue('list.todos', {title: 'c'}, {title: 'd'});
+    let inserted = state.insertingValue('list.todos[0].tags', 0, 'y');
+    let removed = state.removingIndex('list.todos', 0);
+    let spliced = state.splicing('list.todos', 0, 2, 1, 2, 3);
+    let created = state.pushingValue('list.others', 1);
+    let nonArray = state.updatingValue('a', 1).pushingValue('a', 2);
+
+    /// Then
+    expect(pushed.valueAtNode('list.todos').value).toHaveLength(4);
+    expect(pushed.valueAtNode('list.todos.3.title').value).toBe('d');
+    expect(inserted.valueAtNode('list.todos.0.tags').value).toEqual(['y', 'x']);
+    expect(removed.valueAtNode('list.todos').value).toEqual([todos[1]]);
+    expect(spliced.valueAtNode('list.todos').value).toEqual([1, 2, 3]);
+    expect(created.valueAtNode('list.others').value).toEqual([1]);
+    expect(nonArray.valueAtNode('a').value).toBe(1);
+    expect(todos).toHaveLength(2);
+    expect(todos[0].tags).toEqual(['x']);
+  });
+});
@@ -60,6 +60,37 @@ describe('Nominal state tests', () => {
     /// Then
     expect(clonedState.flatten()).toEqual(state.flatten());
   });
+
+  it('Clone values inside arrays - should copy the whole value', () => {
+    /// Setup
+    let todos = [{title: 'a', done: false}, {title: 'b', done: true}];
+
+    let state = State.empty<any>().updatingKeyValues({
+      todos,
+      'user.tags': ['x', 'y'],
+      'user.name': 'c',
+    });
+
+    /// When
+    let cloned = state.cloningWithValuesAtNodes(
+      'todos.0.title',
+      'user.tags[1]',
+      'todos.5.title'
+    );
+
+    /// Then
+    expect(cloned.flatten()).toEqual({
+      [State.valuesKey]: {todos},
+      [State.substateKey]: {
+        user: {
+          [State.valuesKey]: {tags: ['x', 'y']},
+          [State.substateKey]: {},
+        },
+      },
+    });
+
+    expect(cloned.valueAtNode('todos.0.title').value).toBe('a');
+  });
 });
 
 describe("State's instanceAtNode should be implemented correctly", () => {
@@ -127,3 +158,321 @@ describe('State should be immutable', () => {
     expect(state.valueAtNode('a').value).not.toBe(2);
   });
 });
+
+describe('State updates should share unmodified nodes', () => {
+  let state = State.empty<number>().updatingKeyValues({
+    'a.b.c': 1,
+    'a.d.e': 2,
+    'f.g': 3,
+  });
+
+  it('Updating value - should only copy substates on the path', () => {
+    /// Setup & When
+    let newState = state.updatingValue('a.b.c', 4);
+
+    /// Then
+    expect(newState.substateAtNode('a.d').value).toBe(
+      state.substateAtNode('a.d').value
+    );
+
+    expect(newState.substateAtNode('f').value).toBe(
+      state.substateAtNode('f').value
+    );
+
+    expect(newState.substateAtNode('a.b').value).not.toBe(
+      state.substateAtNode('a.b').value
+    );
+
+    expect(state.valueAtNode('a.b.c').value).toBe(1);
+    expect(newState.valueAtNode('a.b.c').value).toBe(4);
+  });
+
+  it('Updating key values - should not affect the original state', () => {
+    /// Setup & When
+    let newState = state.updatingKeyValues({'a.b.c': 5, 'a.b.h': 6});
+
+    /// Then
+    expect(state.valueAtNode('a.b.c').value).toBe(1);
+    expect(state.valueAtNode('a.b.h').isFailure()).toBeTruthy();
+    expect(newState.valueAtNode('a.b.c').value).toBe(5);
+    expect(newState.valueAtNode('a.b.h').value).toBe(6);
+    expect(newState.substateAtNode('f').value).toBe(
+      state.substateAtNode('f').value
+    );
+  });
+
+  it('Removing values from a wide state - should keep other values', () => {
+    /// Setup
+    let keys = Array.from(Array(1000).keys()).map(v => `key${v}`);
+    let values = keys.map(v => ({[v]: v.length}));
+    let wide = State.empty<number>().updatingKeyValues(
+      values.reduce((acc, v) => Object.assign(acc, v), {})
+    );
+
+    /// When
+    let removed = keys
+      .filter((_v, i) => i % 2 === 0)
+      .reduce((acc, v) => acc.removingValue(v), wide);
+
+    /// Then
+    expect(wide.totalValueCount()).toBe(1000);
+    expect(removed.totalValueCount()).toBe(500);
+    expect(removed.valueAtNode('key1').value).toBe(4);
+    expect(removed.valueAtNode('key0').isFailure()).toBeTruthy();
+  });
+});
+
+describe('State mutation sessions should be implemented correctly', () => {
+  let state = State.empty<number>().updatingKeyValues({
+    'a.b.c': 1,
+    'a.b.d': 2,
+    'e.f': 3,
+  });
+
+  it('Updating draft - should apply all updates in place', () => {
+    /// Setup
+    let drafts: State.Type<number>[] = [];
+
+    /// When
+    let newState = state.withMutations(draft => {
+      drafts.push(draft.updatingValue('a.b.c', 10));
+      drafts.push(draft.movingValue('a.b.d', 'g.h'));
+      drafts.push(draft.copyingSubstate('e', 'i.j'));
+      drafts.push(draft.updatingKeyValues({'k.l': 4, 'k.m': 5}));
+      drafts.push(draft.removingSubstate('e'));
+      drafts.push(draft.updatingValue('i.j.f', 6));
+    });
+
+    /// Then
+    drafts.forEach(v => expect(v).toBe(newState));
+    expect(newState.valuesWithFullPaths()).toEqual({
+      'a.b.c': 10,
+      'g.h': 2,
+      'i.j.f': 6,
+      'k.l': 4,
+      'k.m': 5,
+    });
+
+    expect(state.valuesWithFullPaths()).toEqual({
+      'a.b.c': 1,
+      'a.b.d': 2,
+      'e.f': 3,
+    });
+  });
+
+  it('Committing draft - should freeze new state', () => {
+    /// Setup & When
+    let draftRef: State.Type<number> | undefined;
+
+    let newState = state.withMutations(draft => {
+      draftRef = draft.updatingValue('a.b.c', 10);
+    });
+
+    let laterState = draftRef!.updatingValue('a.b.c', 20);
+
+    /// Then
+    expect(Object.isFrozen(newState)).toBeTruthy();
+    expect(Object.isFrozen(newState.substateAtNode('a.b').value)).toBeTruthy();
+    expect(laterState).not.toBe(newState);
+    expect(newState.valueAtNode('a.b.c').value).toBe(10);
+    expect(laterState.valueAtNode('a.b.c').value).toBe(20);
+  });
+
+  it('Nested sessions - should not leak into the outer draft', () => {
+    /// Setup & When
+    let innerState: State.Type<number> | undefined;
+
+    let newState = state.withMutations(draft => {
+      draft.updatingValue('a.b.c', 10);
+
+      innerState = draft.withMutations(inner => {
+        inner.updatingValue('a.b.c', 20);
+      });
+    });
+
+    /// Then
+    expect(newState.valueAtNode('a.b.c').value).toBe(10);
+    expect(innerState!.valueAtNode('a.b.c').value).toBe(20);
+  });
+
+  it('Nested sessions - should not share nodes the outer draft updates', () => {
+    /// Setup & When
+    let innerState: State.Type<number> | undefined;
+
+    let newState = state.withMutations(draft => {
+      draft.updatingValue('a.b.c', 10);
+
+      innerState = draft.withMutations(inner => {
+        inner.updatingValue('e.f', 30);
+      });
+
+      draft.updatingValue('a.b.c', 20);
+    });
+
+    /// Then
+    expect(newState.valuesWithFullPaths()).toEqual({
+      'a.b.c': 20,
+      'a.b.d': 2,
+      'e.f': 3,
+    });
+
+    expect(innerState!.valuesWithFullPaths()).toEqual({
+      'a.b.c': 10,
+      'a.b.d': 2,
+      'e.f': 30,
+    });
+  });
+
+  it('Transforming draft - should update it in place', () => {
+    /// Setup
+    let source = State.empty<any>().updatingKeyValues({
+      'a.b.c': 1,
+      'a.b.d': [1, 2],
+      'e.f': 3,
+      g: 4,
+    });
+
+    let values = source.valuesWithFullPaths();
+    let other = State.empty<any>().updatingValue('h', 5);
+
+    let transforms: [
+      (draft: State.Type<any>) => State.Type<any>,
+      {[key: string]: any}
+    ][] = [
+      [v => v.mappingValue('a.b.c', v1 => v1.map(v2 => v2 + 1)), {'a.b.c': 2}],
+      [v => v.pushingValue('a.b.d', 3), {'a.b.d': [1, 2, 3]}],
+      [v => v.insertingValue('a.b.d', 0, 0), {'a.b.d': [0, 1, 2]}],
+      [v => v.removingIndex('a.b.d', 0), {'a.b.d': [2]}],
+      [v => v.splicing('a.b.d', 1, 1, 5), {'a.b.d': [1, 5]}],
+      [
+        v => v.updatingMatching('e.*', v1 => v1.map(v2 => v2 * 10)),
+        {'e.f': 30},
+      ],
+      [v => v.removingMatching('e.*'), {'e.f': undefined}],
+      [v => v.filteringValues(path => path !== 'g'), {g: undefined}],
+      [
+        v => v.mappingKeys(path => path.replace('e.', 'x.')),
+        {'e.f': undefined, 'x.f': 3},
+      ],
+      [
+        v => v.renamingSubstate('a.b', 'x'),
+        {'a.b.c': undefined, 'a.b.d': undefined, 'a.x.c': 1, 'a.x.d': [1, 2]},
+      ],
+      [
+        v => v.flatteningSubstate('a.b'),
+        {'a.b.c': undefined, 'a.b.d': undefined, 'a.c': 1, 'a.d': [1, 2]},
+      ],
+      [v => v.nestingValues('n'), {g: undefined, 'n.g': 4}],
+      [v => v.merging(other).state, {h: 5}],
+      [
+        v =>
+          v.applyingPatch([{op: 'replace', path: '/values/g', value: 5}])
+            .value!,
+        {g: 5},
+      ],
+    ];
+
+    transforms.forEach(([fn, changes]) => {
+      /// When
+      let result: State.Type<any> | undefined;
+
+      let newState = source.withMutations(draft => {
+        result = fn(draft);
+      });
+
+      /// Then
+      let expected = Object.assign({}, values, changes);
+      Object.keys(changes)
+        .filter(v => changes[v] === undefined)
+        .forEach(v => delete expected[v]);
+
+      expect(result).toBe(newState);
+      expect(newState.valuesWithFullPaths()).toEqual(expected);
+      expect(source.valuesWithFullPaths()).toEqual(values);
+    });
+  });
+
+  it('Deriving from draft - should not follow later draft updates', () => {
+    /// Setup
+    let derived: State.Type<number>[] = [];
+
+    /// When
+    let newState = state.withMutations(draft => {
+      draft.updatingValue('a.b.c', 10);
+      derived.push(...draft.partitioningValues(path => path !== 'e.f'));
+      derived.push(draft.mappingEach(v => v));
+      derived.push(draft.withSeparator('/'));
+      derived.push(draft.cloneWithPaths(['a.b.c'], ['a', 'e']));
+      derived.push(draft.withMutations(() => undefined));
+      draft.updatingValue('a.b.c', 20);
+      draft.updatingValue('e.f', 30);
+    });
+
+    /// Then
+    expect(newState.valueAtNode('a.b.c').value).toBe(20);
+    expect(newState.valueAtNode('e.f').value).toBe(30);
+
+    derived.forEach(v => {
+      expect(v.valueAtNode(['a', 'b', 'c']).getOrElse(10)).toBe(10);
+      expect(v.valueAtNode(['e', 'f']).getOrElse(3)).toBe(3);
+    });
+  });
+});
+
+describe('State separators should be inherited by the whole tree', () => {
+  let state = State.builder<any>()
+    .withSubstateSeparator('/')
+    .build()
+    .updatingValue('a/b.c/d', 1)
+    .updatingValue('a/e', 2);
+
+  let separatorsOf = (state1: State.Type<any>): string[] => {
+    let separators = [state1.substateSeparator];
+
+    Object.keys(state1.substate).forEach(v => {
+      separators.push(...separatorsOf(state1.substate[v]!));
+    });
+
+    return separators;
+  };
+
+  it('Updating nested values - should create substates with same separator', () => {
+    /// Setup & When & Then
+    expect(separatorsOf(state)).toEqual(['/', '/', '/']);
+    expect(state.substateAtNode('a').value!.valueAtNode('b.c/d').value).toBe(1);
+    expect(state.valuesWithFullPaths()).toEqual({'a/b.c/d': 1, 'a/e': 2});
+  });
+
+  it('Constructing and copying states - should keep separator', () => {
+    /// Setup & When
+    let mapped = state.mappingEach(v => v * 2);
+    let cloned = state.cloneWithPaths(['a/e'], ['a/b.c']);
+    let parsed = State.fromKeyValue(JSON.parse(JSON.stringify(state)));
+    let flattened = State.fromKeyValue(state.flatten(), '/');
+    let added = State.empty<any>().updatingSubstate('x.y', state);
+
+    /// Then
+    [mapped, cloned, parsed, flattened].forEach(v =>
+      expect(separatorsOf(v).every(v1 => v1 === '/')).toBeTruthy()
+    );
+
+    expect(mapped.valueAtNode('a/b.c/d').value).toBe(2);
+    expect(cloned.valueAtNode('a/b.c/d').value).toBe(1);
+    expect(parsed.valueAtNode('a/e').value).toBe(2);
+    expect(flattened.valueAtNode('a/e').value).toBe(2);
+    expect(separatorsOf(added).every(v => v === '.')).toBeTruthy();
+    expect(added.valueAtNode('x.y.a.b\\.c.d').value).toBe(1);
+  });
+
+  it('Converting separator - should re-key the whole tree', () => {
+    /// Setup & When
+    let converted = state.withSeparator('.');
+
+    /// Then
+    expect(state.withSeparator('/')).toBe(state);
+    expect(separatorsOf(converted).every(v => v === '.')).toBeTruthy();
+    expect(converted.valueAtNode('a.b\\.c.d').value).toBe(1);
+    expect(converted.valueAtNode(['a', 'b.c', 'd']).value).toBe(1);
+    expect(converted.withSeparator('/').equals(state)).toBeTruthy();
+  });
+});
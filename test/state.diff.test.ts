@@ -0,0 +1,86 @@
+import {State} from './../src';
+
+describe('State diff should be implemented correctly', () => {
+  let state = State.empty<any>().updatingKeyValues({
+    'a.b.c': 1,
+    'a.b.d': 2,
+    'a.e': 3,
+    'f.g': 4,
+    h: 5,
+  });
+
+  it('Diffing identical states - should return no changes', () => {
+    /// Setup
+    let other = State.fromKeyValue(state.flatten());
+
+    /// When & Then
+    expect(state.diff(state)).toEqual([]);
+    expect(state.diff(other)).toEqual([]);
+  });
+
+  it('Diffing modified states - should return all changes', () => {
+    /// Setup
+    let substate = State.empty<any>().updatingValue('j', 6);
+
+    let other = state
+      .updatingValue('a.b.c', 10)
+      .removingValue('a.e')
+      .updatingValue('a.i', 7)
+      .removingSubstate('f')
+      .updatingSubstate('a.k', substate);
+
+    /// When
+    let changes = other.diff(state);
+    let reversed = state.diff(other);
+
+    /// Then
+    expect(reversed).toHaveLength(5);
+    expect(reversed).toContainEqual({
+      type: 'valueRemoved',
+      path: 'a.e',
+      value: 3,
+    });
+    expect(reversed).toContainEqual({
+      type: 'valueAdded',
+      path: 'a.i',
+      value: 7,
+    });
+    expect(reversed).toContainEqual({
+      type: 'valueChanged',
+      path: 'a.b.c',
+      oldValue: 1,
+      newValue: 10,
+    });
+
+    expect(reversed).toContainEqual({
+      type: 'substateRemoved',
+      path: 'f',
+      substate: state.substateAtNode('f').value,
+    });
+
+    expect(reversed).toContainEqual({
+      type: 'substateAdded',
+      path: 'a.k',
+      substate,
+    });
+
+    expect(changes).toContainEqual({type: 'valueAdded', path: 'a.e', value: 3});
+    expect(changes).toContainEqual({
+      type: 'valueRemoved',
+      path: 'a.i',
+      value: 7,
+    });
+  });
+
+  it('Diffing with custom compare function - should use it for values', () => {
+    /// Setup
+    let state1 = State.empty<any>().updatingValue('a.b', [1, 2]);
+    let state2 = State.empty<any>().updatingValue('a.b', [1, 2]);
+    let compareFn = (v1: any, v2: any) =>
+      JSON.stringify(v1) === JSON.stringify(v2);
+
+    /// When & Then
+    expect(state1.diff(state2)).toHaveLength(1);
+    expect(state1.diff(state2, compareFn)).toHaveLength(0);
+  });
+});
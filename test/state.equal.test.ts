@@ -0,0 +1,193 @@
+import {State} from './../src';
+
+describe('State equality should be implemented correctly', () => {
+  let object = {id: 1};
+
+  let state = State.empty<any>().updatingKeyValues({
+    a: 1,
+    'b.c': 'x',
+    'b.d.e': object,
+  });
+
+  it('Hashing states - should match for equal states', () => {
+    /// Setup
+    let reordered = State.empty<any>().updatingKeyValues({
+      'b.d.e': object,
+      'b.c': 'x',
+      a: 1,
+    });
+
+    /// When
+    let updated = state.updatingValue('b.d.e', {id: 1});
+    let reverted = updated.updatingValue('b.d.e', object);
+
+    /// Then
+    expect(reordered.hashCode()).toBe(state.hashCode());
+    expect(State.fromKeyValue(state.flatten()).hashCode()).toBe(
+      state.hashCode()
+    );
+    expect(updated.hashCode()).not.toBe(state.hashCode());
+    expect(reverted.hashCode()).toBe(state.hashCode());
+    expect(state.updatingValue('a', '1').hashCode()).not.toBe(state.hashCode());
+    expect(state.hashCode()).toBe(state.hashCode());
+  });
+
+  it('Hashing drafts - should follow in-place updates', () => {
+    /// Setup
+    let hashes: number[] = [];
+
+    /// When
+    let updated = state.withMutations(draft => {
+      hashes.push(draft.hashCode());
+      draft.updatingValue('b.d.f', 2);
+      hashes.push(draft.hashCode());
+    });
+
+    /// Then
+    expect(hashes[0]).toBe(state.hashCode());
+    expect(hashes[1]).toBe(updated.hashCode());
+    expect(hashes[1]).not.toBe(hashes[0]);
+  });
+
+  it('Hashing drafts - should follow updates to owned substates', () => {
+    /// Setup
+    let expected = state.updatingKeyValues({'b.d.f': 2, 'b.d.g': 3});
+    let hashes: number[] = [];
+    let copies: State.Type<any>[] = [];
+
+    /// When
+    let updated = state.withMutations(draft => {
+      draft.updatingValue('b.d.f', 2);
+
+      /// The substate was created by the session, so it is updated in place
+      /// without going through the draft.
+      draft.substateAtNode('b.d').value!.updatingValue('g', 3);
+      hashes.push(draft.hashCode());
+      copies.push(draft.cloneBuilder().build());
+      draft.updatingValue('b.d.h', 4);
+    });
+
+    /// Then
+    expect(hashes[0]).toBe(expected.hashCode());
+    expect(copies[0].hashCode()).toBe(expected.hashCode());
+    expect(copies[0].equals(expected)).toBe(true);
+    expect(updated.hashCode()).toBe(
+      expected.updatingValue('b.d.h', 4).hashCode()
+    );
+    expect(updated.equals(copies[0])).toBe(false);
+  });
+
+  it('Comparing states - should be symmetric', () => {
+    /// Setup
+    let extraValue = state.updatingValue('b.f', 2);
+    let extraSubstate = state.updatingValue('g.h', 3);
+    let missing = {_values: {a: 1, x: undefined}, _substate: state.substate};
+
+    /// When & Then
+    expect(state.equals(state)).toBe(true);
+    expect(state.equals(state.flatten())).toBe(true);
+    expect(state.equals(extraValue)).toBe(false);
+    expect(extraValue.equals(state)).toBe(false);
+    expect(state.equals(extraSubstate)).toBe(false);
+    expect(extraSubstate.equals(state)).toBe(false);
+    expect(state.equals(missing)).toBe(true);
+    expect(State.fromKeyValue(missing).equals(state)).toBe(true);
+    expect(state.equals(undefined)).toBe(false);
+  });
+
+  it('Comparing states deeply - should compare value contents', () => {
+    /// Setup
+    let response = (date: number) =>
+      State.fromKeyValue({
+        _values: {
+          list: [1, {a: [2]}],
+          date: new Date(date),
+          map: new Map([['k', {b: 1}]]),
+          set: new Set([{c: 1}, 2]),
+        },
+        _substate: {},
+      });
+
+    let deep: {valueComparator: 'deep'} = {valueComparator: 'deep'};
+
+    /// When & Then
+    expect(response(1).equals(response(1))).toBe(false);
+    expect(response(1).equals(response(1), deep)).toBe(true);
+    expect(response(1).equals(response(2), deep)).toBe(false);
+
+    expect(
+      response(1)
+        .updatingValue('list', [1, {a: [3]}])
+        .equals(response(1), deep)
+    ).toBe(false);
+
+    expect(State.deepEquals({a: 1, b: undefined}, {a: 1})).toBe(false);
+    expect(State.deepEquals({a: 1, b: undefined}, {a: 1}, true)).toBe(true);
+    expect(State.deepEquals(new Set([1]), new Set([2]))).toBe(false);
+    expect(State.deepEquals(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(
+      false
+    );
+    expect(State.deepEquals([NaN], [NaN])).toBe(true);
+    expect(State.deepEquals(new Date(1), {})).toBe(false);
+  });
+
+  it('Comparing states with options - should ignore paths and missing values', () => {
+    /// Setup
+    let other = state
+      .updatingValue('b.d.updatedAt', 1)
+      .updatingValue('meta.version', 2);
+
+    let withUndefined = {
+      _values: {a: 1, x: undefined},
+      _substate: state.substate,
+    };
+
+    let comparator = (v1: any, v2: any) => (v1 || 0) === (v2 || 0);
+
+    /// When & Then
+    expect(state.equals(other)).toBe(false);
+
+    expect(state.equals(other, {ignorePaths: ['**.updatedAt', 'meta']})).toBe(
+      true
+    );
+
+    expect(other.equals(state, {ignorePaths: ['**.updatedAt']})).toBe(false);
+
+    expect(
+      state
+        .updatingValue('a', 0)
+        .equals(state.removingValue('a'), {valueComparator: comparator})
+    ).toBe(false);
+
+    expect(
+      state.updatingValue('a', 0).equals(state.removingValue('a'), {
+        valueComparator: comparator,
+        treatMissingAsUndefined: true,
+      })
+    ).toBe(true);
+
+    expect(state.equals(withUndefined)).toBe(true);
+
+    expect(
+      state.equalsForValues(other, ['a', 'b.d.updatedAt'], {
+        ignorePaths: ['b.*.updatedAt'],
+      })
+    ).toBe(true);
+
+    expect(
+      state.equalsForValues(other, ['b.d.updatedAt'], (v1, v2) => v1 === v2)
+    ).toBe(false);
+
+    expect(
+      state.equalsForSubstates(other, ['b', 'meta'], {
+        ignorePaths: ['b.d.updatedAt', 'meta'],
+      })
+    ).toBe(true);
+
+    expect(
+      state.equalsForSubstates(other, ['b'], {ignorePaths: ['updatedAt']})
+    ).toBe(false);
+
+    expect(state.equalsForSubstates(other, ['b'], () => true)).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import {State} from './../src';
+
+describe('State history should be implemented correctly', () => {
+  let state = State.empty<number>().updatingKeyValues({'a.b': 1, 'a.c': 2});
+
+  [false, true].forEach(compact => {
+    it(`Undo/redo with compact ${compact} - should restore states`, () => {
+      /// Setup
+      let state1 = state.updatingValue('a.b', 3);
+      let state2 = state1.removingSubstate('a').updatingValue('d', 4);
+
+      let history = State.history(state, {compact})
+        .push(state1)
+        .push(state2);
+
+      /// When & Then
+      expect(history.canUndo()).toBeTruthy();
+      expect(history.canRedo()).toBeFalsy();
+
+      history = history.undo();
+      expect(history.current.flatten()).toEqual(state1.flatten());
+
+      history = history.undo();
+      expect(history.current.flatten()).toEqual(state.flatten());
+      expect(history.canUndo()).toBeFalsy();
+      expect(history.undo()).toBe(history);
+
+      history = history.redo().redo();
+      expect(history.current.flatten()).toEqual(state2.flatten());
+      expect(history.canRedo()).toBeFalsy();
+
+      history = history.undo().push(state.updatingValue('e', 5));
+      expect(history.canRedo()).toBeFalsy();
+      expect(history.undoCount).toBe(2);
+    });
+  });
+
+  it('Pushing beyond max depth - should drop oldest steps', () => {
+    /// Setup
+    let history = State.history(state, {maxDepth: 2});
+
+    /// When
+    for (let i = 0; i < 5; i++) {
+      history = history.push(history.current.updatingValue(`k${i}`, i));
+    }
+
+    /// Then
+    expect(history.undoCount).toBe(2);
+    expect(
+      history
+        .undo()
+        .undo()
+        .current.valueAtNode('k2').value
+    ).toBe(2);
+    expect(
+      history
+        .undo()
+        .undo()
+        .current.valueAtNode('k3')
+        .isFailure()
+    ).toBe(true);
+  });
+
+  it('Undo/redo with compact and Dates - should restore values', () => {
+    /// Setup
+    let dated = State.empty<any>().updatingValue('d', new Date(0));
+    let changed = dated.updatingValue('d', new Date(1000));
+    let copied = changed.updatingValue('d', new Date(1000));
+
+    /// When
+    let history = State.history(dated, {compact: true})
+      .push(changed)
+      .push(copied);
+
+    /// Then
+    expect(history.undo().current.valueAtNode('d').value).toBe(
+      changed.valueAtNode('d').value
+    );
+
+    expect(
+      history
+        .undo()
+        .undo()
+        .current.valueAtNode('d').value
+    ).toEqual(new Date(0));
+
+    expect(
+      history
+        .undo()
+        .undo()
+        .redo()
+        .current.valueAtNode('d').value
+    ).toEqual(new Date(1000));
+  });
+
+  [false, true].forEach(compact => {
+    it(`Coalescing with compact ${compact} - should merge same paths`, () => {
+      /// Setup
+      let history = State.history(state, {coalesce: true, compact});
+
+      /// When
+      history = history
+        .push(history.current.updatingValue('a.b', 10))
+        .push(history.current.updatingValue('a.b', 11))
+        .push(history.current.updatingValue('a.b', 12));
+
+      let coalesced = history.undoCount;
+      history = history.push(history.current.updatingValue('a.c', 13));
+
+      /// Then
+      expect(coalesced).toBe(1);
+      expect(history.undoCount).toBe(2);
+      expect(history.undo().current.valueAtNode('a.b').value).toBe(12);
+      expect(
+        history
+          .undo()
+          .undo()
+          .current.flatten()
+      ).toEqual(state.flatten());
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import {State} from './../src';
+
+describe('State iterators should be implemented correctly', () => {
+  let state = State.empty<any>().updatingKeyValues({
+    a: 1,
+    'b.c': 2,
+    'b.d.e': 3,
+    'b.d.f': 4,
+    'g.h': 5,
+    'i\\.j.k': 6,
+  });
+
+  it('Iterating depth first - should visit substates before siblings', () => {
+    /// Setup & When
+    let entries = Array.from(state.entries());
+    let substates = Array.from(state.substates()).map(([v]) => v);
+
+    /// Then
+    expect(entries).toEqual([
+      ['a', 1],
+      ['b.c', 2],
+      ['b.d.e', 3],
+      ['b.d.f', 4],
+      ['g.h', 5],
+      ['i\\.j.k', 6],
+    ]);
+
+    expect(substates).toEqual(['b', 'b.d', 'g', 'i\\.j']);
+    expect(Array.from(state.paths())).toEqual(entries.map(([v]) => v));
+  });
+
+  it('Iterating breadth first - should visit substates level by level', () => {
+    /// Setup
+    let order: 'breadthFirst' = 'breadthFirst';
+
+    /// When
+    let paths = Array.from(state.paths({order}));
+    let substates = Array.from(state.substates({order})).map(([v]) => v);
+
+    /// Then
+    expect(paths).toEqual(['a', 'b.c', 'g.h', 'i\\.j.k', 'b.d.e', 'b.d.f']);
+    expect(substates).toEqual(['b', 'g', 'i\\.j', 'b.d']);
+  });
+
+  it('Iterating with max depth - should skip deeper substates', () => {
+    /// Setup & When & Then
+    expect(Array.from(state.paths({maxDepth: 0}))).toEqual(['a']);
+    expect(Array.from(state.paths({maxDepth: 1}))).toEqual([
+      'a',
+      'b.c',
+      'g.h',
+      'i\\.j.k',
+    ]);
+    expect(
+      Array.from(state.substates({maxDepth: 1, order: 'breadthFirst'})).map(
+        ([v]) => v
+      )
+    ).toEqual(['b', 'g', 'i\\.j']);
+    expect(Array.from(State.empty<any>().entries())).toEqual([]);
+    expect(
+      State.empty<any>()
+        .paths()
+        .next()
+    ).toEqual({
+      done: true,
+      value: undefined,
+    });
+  });
+
+  it('Iterating lazily - should stop at the first match', () => {
+    /// Setup
+    let iterator = state.entries();
+    let found: any;
+
+    /// When
+    for (let next = iterator.next(); !next.done; next = iterator.next()) {
+      if (next.value[1] > 2) {
+        found = next.value;
+        break;
+      }
+    }
+
+    /// Then
+    expect(found).toEqual(['b.d.e', 3]);
+    expect(iterator.next().value).toEqual(['b.d.f', 4]);
+    expect(iterator[Symbol.iterator]()).toBe(iterator);
+  });
+});
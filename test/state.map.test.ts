@@ -0,0 +1,194 @@
+import {State} from './../src';
+
+describe('State value collections should be implemented correctly', () => {
+  let state = State.empty<any>('/').updatingKeyValues({
+    a: 1,
+    'b/c': 2,
+    'b/d/e': 3,
+    'b/d/f': 'x',
+    'g/h': 4,
+  });
+
+  let isNumber = (_k: string, v: any) => typeof v === 'number';
+
+  it('Filtering values - should keep substate structure', () => {
+    /// Setup & When
+    let filtered = state.filteringValues((k, v) => k !== 'a' && v !== 4);
+    let numbers = state.filteringValues(isNumber);
+
+    /// Then
+    expect(filtered.valuesWithFullPaths()).toEqual({
+      'b/c': 2,
+      'b/d/e': 3,
+      'b/d/f': 'x',
+    });
+
+    expect(filtered.substateSeparator).toBe('/');
+    expect(filtered.substateAtNode('g').map(v => v.isEmpty()).value).toBe(true);
+    expect(filtered.substateAtNode('b/d').value).toBe(
+      state.substateAtNode('b/d').value
+    );
+    expect(numbers.valueAtNode('b/d/f').isFailure()).toBe(true);
+    expect(state.filteringValues(() => true)).toBe(state);
+    expect(() =>
+      state.filteringValues(() => {
+        throw new Error('Failed');
+      })
+    ).toThrow('Failed');
+  });
+
+  it('Reducing and searching values - should visit full paths', () => {
+    /// Setup
+    let visited: string[] = [];
+
+    /// When
+    let sum = state.reducingValues((acc, _k, v) => acc + (+v || 0), 0);
+
+    let found = state.findingValue((k, v) => {
+      visited.push(k);
+      return v > 2;
+    });
+
+    /// Then
+    expect(sum).toBe(10);
+    expect(found.value).toEqual(['b/d/e', 3]);
+    expect(visited).toEqual(['a', 'b/c', 'b/d/e']);
+    expect(state.findingValue(() => false).isFailure()).toBe(true);
+    expect(state.someValue((_k, v) => v === 'x')).toBe(true);
+    expect(state.someValue((_k, v) => v === 'y')).toBe(false);
+    expect(state.everyValue((k, _v) => k.length > 0)).toBe(true);
+    expect(state.everyValue(isNumber)).toBe(false);
+  });
+
+  it('Partitioning and counting values - should group by predicate', () => {
+    /// Setup & When
+    let [numbers, others] = state.partitioningValues(isNumber);
+    let counts = state.countingBy((_k, v) => typeof v);
+
+    /// Then
+    expect(numbers.valuesWithFullPaths()).toEqual({
+      a: 1,
+      'b/c': 2,
+      'b/d/e': 3,
+      'g/h': 4,
+    });
+    expect(others.valuesWithFullPaths()).toEqual({'b/d/f': 'x'});
+    expect(others.substateAtNode('g').isSuccess()).toBe(true);
+    expect(counts).toEqual({number: 4, string: 1});
+  });
+});
+
+describe('State async mapping should be implemented correctly', () => {
+  let state = State.empty<any>('/').updatingKeyValues({
+    a: 1,
+    'b/c': 2,
+    'b/d/e': 3,
+    'f/g': 4,
+  });
+
+  let delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  it('Mapping each value async - should respect concurrency', async () => {
+    /// Setup
+    let active = 0;
+    let maxActive = 0;
+
+    /// When
+    let mapped = await state.mappingEachAsync(
+      async (v, path) => {
+        active += 1;
+        maxActive = Math.max(maxActive, active);
+        await delay(5);
+        active -= 1;
+        return `${path}=${v * 2}`;
+      },
+      {concurrency: 2}
+    );
+
+    /// Then
+    expect(maxActive).toBe(2);
+    expect(mapped.substateSeparator).toBe('/');
+    expect(mapped.valuesWithFullPaths()).toEqual({
+      a: 'a=2',
+      'b/c': 'b/c=4',
+      'b/d/e': 'b/d/e=6',
+      'f/g': 'f/g=8',
+    });
+  });
+
+  it('Mapping each value async with invalid concurrency - should reject', async () => {
+    /// Setup
+    let fn = async (v: number) => v;
+
+    /// When
+    let results = await Promise.all(
+      [NaN, 0, 0.5, -1].map(concurrency =>
+        state
+          .mappingEachAsync(fn, {concurrency})
+          .then(() => 'resolved', (e: Error) => e.message)
+      )
+    );
+
+    let mapped = await state.mappingEachAsync(fn, {concurrency: 1.5});
+
+    /// Then
+    expect(results).toEqual([
+      'Invalid concurrency NaN',
+      'Invalid concurrency 0',
+      'Invalid concurrency 0.5',
+      'Invalid concurrency -1',
+    ]);
+
+    expect(mapped.valuesWithFullPaths()).toEqual(state.valuesWithFullPaths());
+  });
+
+  it('Mapping each value async with failures - should reject or collect', async () => {
+    /// Setup
+    let failures: string[] = [];
+
+    let fn = async (v: number, path: string) => {
+      if (v % 2 === 0) {
+        throw new Error(`Failed at ${path}`);
+      }
+
+      return v;
+    };
+
+    /// When
+    let rejected = await state.mappingEachAsync(fn).catch(e => e.message);
+
+    let collected = await state.mappingEachAsync(fn, {
+      onError: (e, path) => failures.push(`${path}: ${e.message}`),
+    });
+
+    /// Then
+    expect(rejected).toBe('Failed at b/c');
+    expect(failures).toEqual(['b/c: Failed at b/c', 'f/g: Failed at f/g']);
+    expect(collected.valuesWithFullPaths()).toEqual({a: 1, 'b/d/e': 3});
+    expect((await State.empty<any>().mappingEachAsync(fn)).isEmpty()).toBe(
+      true
+    );
+  });
+
+  it('Mapping value async - should update value at path', async () => {
+    /// Setup & When
+    let mapped = await state.mappingValueAsync('b/d/e', async v =>
+      v.map(v1 => v1 + 1)
+    );
+
+    let created = await state.mappingValueAsync(['x', 'y'], () =>
+      Promise.resolve(5)
+    );
+
+    /// Then
+    expect(mapped.valueAtNode('b/d/e').value).toBe(4);
+    expect(state.valueAtNode('b/d/e').value).toBe(3);
+    expect(created.valueAtNode('x/y').value).toBe(5);
+
+    let error = await state
+      .mappingValueAsync('a', () => Promise.reject(new Error('Failed')))
+      .catch(e => e.message);
+
+    expect(error).toBe('Failed');
+  });
+});
@@ -0,0 +1,162 @@
+import {State} from './../src';
+
+describe('State merging should be implemented correctly', () => {
+  let local = State.empty<any>().updatingKeyValues({
+    'user.name': 'a',
+    'user.age': 1,
+    'user.address.city': 'b',
+    'ui.modal': true,
+  });
+
+  let remote = State.empty<any>().updatingKeyValues({
+    'user.name': 'c',
+    'user.email': 'd',
+    'user.address.city': 'e',
+    'feed.items': [1],
+  });
+
+  it('Merging with default strategy - should prefer other values', () => {
+    /// Setup & When
+    let {state, conflicts} = local.merging(remote);
+
+    /// Then
+    expect(state.valuesWithFullPaths()).toEqual({
+      'user.name': 'c',
+      'user.age': 1,
+      'user.email': 'd',
+      'user.address.city': 'e',
+      'ui.modal': true,
+      'feed.items': [1],
+    });
+
+    expect(conflicts).toEqual([
+      {path: 'user.name', left: 'a', right: 'c'},
+      {path: 'user.address.city', left: 'b', right: 'e'},
+    ]);
+
+    expect(state.substateAtNode('ui').value).toBe(
+      local.substateAtNode('ui').value
+    );
+    expect(local.valueAtNode('user.name').value).toBe('a');
+  });
+
+  it('Merging with other strategies - should resolve conflicts', () => {
+    /// Setup & When
+    let left = local.merging(remote, {strategy: 'preferLeft'}).state;
+
+    let custom = local.merging(remote.flatten(), {
+      strategy: (path, v1, v2) => (path === 'user.name' ? undefined : v1 + v2),
+    }).state;
+
+    let same = local.merging(local.cloningWithValuesAtNodes('user.name'));
+
+    /// Then
+    expect(left.valueAtNode('user.name').value).toBe('a');
+    expect(left.valueAtNode('user.email').value).toBe('d');
+    expect(custom.valueAtNode('user.name').isFailure()).toBeTruthy();
+    expect(custom.valueAtNode('user.address.city').value).toBe('be');
+    expect(same.state).toBe(local);
+    expect(same.conflicts).toEqual([]);
+
+    expect(() => local.merging(remote, {strategy: 'throwOnConflict'})).toThrow(
+      'Conflicting values at user.name, user.address.city'
+    );
+
+    expect(
+      local
+        .merging(local.updatingValue('ui.x', 1), {
+          strategy: 'throwOnConflict',
+        })
+        .state.valueAtNode('ui.x').value
+    ).toBe(1);
+  });
+});
+
+describe('Three-way merging should be implemented correctly', () => {
+  let base = State.empty<any>().updatingKeyValues({
+    'user.name': 'a',
+    'user.age': 1,
+    'user.address.city': 'b',
+    'user.address.zip': 'c',
+    'ui.modal': true,
+  });
+
+  it('Merging non-overlapping changes - should apply both sides', () => {
+    /// Setup
+    let ours = base.updatingValue('user.name', 'x').removingValue('ui.modal');
+    let theirs = base.updatingValue('user.age', 2).updatingValue('ui.tab', 3);
+
+    /// When
+    let {state, conflicts} = State.merge3(base, ours, theirs.flatten());
+
+    /// Then
+    expect(conflicts).toEqual([]);
+    expect(state.valuesWithFullPaths()).toEqual({
+      'user.name': 'x',
+      'user.age': 2,
+      'user.address.city': 'b',
+      'user.address.zip': 'c',
+      'ui.tab': 3,
+    });
+
+    expect(State.merge3(base, ours, base).state).toBe(ours);
+  });
+
+  it('Merging values changed on both sides - should return conflicts', () => {
+    /// Setup
+    let ours = base
+      .updatingValue('user.name', 'x')
+      .updatingValue('user.age', 5);
+    let theirs = base.updatingValue('user.name', 'y').removingValue('user.age');
+
+    /// When
+    let {state, conflicts} = State.merge3(base, ours, theirs);
+
+    /// Then
+    expect(conflicts.map(v => v.path)).toEqual(['user.name', 'user.age']);
+    expect(conflicts[0]).toMatchObject({type: 'value', path: 'user.name'});
+
+    let [conflict] = conflicts;
+
+    if (conflict.type === 'value') {
+      expect(conflict.base.value).toBe('a');
+      expect(conflict.ours.value).toBe('x');
+      expect(conflict.theirs.value).toBe('y');
+    }
+
+    expect(state.valueAtNode('user.name').value).toBe('x');
+    expect(state.valueAtNode('user.age').value).toBe(5);
+    expect(State.merge3(base, ours, ours).conflicts).toEqual([]);
+  });
+
+  it('Merging moved and edited substates - should return move conflicts', () => {
+    /// Setup
+    let ours = base.movingSubstate('user.address', 'user.home');
+    let theirs = base.updatingValue('user.address.city', 'd');
+    let renamed = base.updatingValue('user.name', 'y');
+
+    /// When
+    let moved = State.merge3(base, ours, theirs);
+    let reversed = State.merge3(base, theirs, ours);
+    let clean = State.merge3(base, ours, renamed);
+
+    /// Then
+    expect(moved.conflicts).toEqual([
+      {
+        type: 'move',
+        path: 'user.address',
+        movedTo: 'user.home',
+        movedBy: 'ours',
+      },
+    ]);
+
+    expect(moved.state.valueAtNode('user.home.city').value).toBe('b');
+    expect(moved.state.substateAtNode('user.address').isFailure()).toBe(true);
+    expect(reversed.conflicts.map(v => v.type)).toEqual(['move']);
+    expect(reversed.state.valueAtNode('user.address.city').value).toBe('d');
+    expect(reversed.state.substateAtNode('user.home').isFailure()).toBe(true);
+    expect(clean.conflicts).toEqual([]);
+    expect(clean.state.valueAtNode('user.home.zip').value).toBe('c');
+    expect(clean.state.valueAtNode('user.name').value).toBe('y');
+  });
+});
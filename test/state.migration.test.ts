@@ -0,0 +1,61 @@
+import {State} from './../src';
+
+describe('State migrations should be implemented correctly', () => {
+  let registry = State.migrations<any>()
+    .add(3, v => v.removingSubstate('legacy'))
+    .add(1, v => v.movingSubstate('user', 'account.user'))
+    .add(2, v => v.copyingValue('account.user.name', 'account.displayName'));
+
+  let state = State.empty<any>()
+    .updatingValue('user.name', 'a')
+    .updatingValue('legacy.flag', true);
+
+  it('Migrating from a stored version - should run later migrations in order', () => {
+    /// Setup & When
+    let result1 = registry.migrate(state, 0);
+    let result2 = registry.migrate(state, 2);
+    let result3 = registry.migrate(state, 3);
+
+    /// Then
+    expect(registry.latestVersion).toBe(3);
+    expect(result1.applied).toEqual([1, 2, 3]);
+    expect(result1.toVersion).toBe(3);
+
+    expect(result1.state.getOrThrow().flatten()).toEqual(
+      State.empty<any>()
+        .updatingValue('account.user.name', 'a')
+        .updatingValue('account.displayName', 'a')
+        .flatten()
+    );
+
+    expect(result2.applied).toEqual([3]);
+    expect(result2.state.value!.valueAtNode('user.name').value).toBe('a');
+    expect(result3.applied).toEqual([]);
+    expect(result3.state.value).toBe(state);
+  });
+
+  it('Failing migration - should stop without keeping changes', () => {
+    /// Setup
+    let failing = registry.add(4, () => {
+      throw new Error('Bad data');
+    });
+
+    let unused = jest.fn(v => v);
+
+    /// When
+    let result1 = failing.add(5, unused).migrate(state, 0);
+    let result2 = registry.migrate(state, 4);
+
+    /// Then
+    expect(result1.applied).toEqual([1, 2, 3]);
+    expect(result1.state.error!.message).toBe(
+      'Migration to version 4 failed: Bad data'
+    );
+
+    expect(unused).not.toHaveBeenCalled();
+    expect(state.valueAtNode('user.name').value).toBe('a');
+    expect(result2.state.isFailure()).toBeTruthy();
+    expect(() => registry.add(2, v => v)).toThrow();
+    expect(() => registry.add(0.5, v => v)).toThrow();
+  });
+});
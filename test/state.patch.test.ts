@@ -0,0 +1,162 @@
+import {State} from './../src';
+
+describe('State JSON patch should be implemented correctly', () => {
+  let state = State.empty<any>().updatingKeyValues({
+    'a.b.c': 1,
+    'a.b.d': [1, 2],
+    'a.e': 3,
+    'f.g': 4,
+    h: 5,
+  });
+
+  it('Applying patch - should update values and substates', () => {
+    /// Setup
+    let ops: State.PatchOperation[] = [
+      {op: 'test', path: '/substate/a/values/e', value: 3},
+      {op: 'test', path: '/substate/a/substate/b/values/d', value: [1, 2]},
+      {op: 'add', path: '/substate/i/values/j', value: 6},
+      {op: 'replace', path: '/values/h', value: 7},
+      {op: 'remove', path: '/substate/a/values/e'},
+      {op: 'move', from: '/substate/f', path: '/substate/k/substate/l'},
+      {op: 'copy', from: '/values/h', path: '/substate/a/values/m'},
+      {op: 'add', path: '/substate/n', value: {values: {o: 8}, substate: {}}},
+    ];
+
+    /// When
+    let result = state.applyingPatch(ops);
+
+    /// Then
+    expect(result.isSuccess()).toBeTruthy();
+    expect(result.value!.valuesWithFullPaths()).toEqual({
+      'a.b.c': 1,
+      'a.b.d': [1, 2],
+      'a.m': 7,
+      h: 7,
+      'i.j': 6,
+      'k.l.g': 4,
+      'n.o': 8,
+    });
+  });
+
+  it('Applying move onto the same path - should leave it unchanged', () => {
+    /// Setup
+    let ops: State.PatchOperation[] = [
+      {op: 'move', from: '/values/h', path: '/values/h'},
+      {op: 'move', from: '/substate/a', path: '/substate/a'},
+    ];
+
+    /// When
+    let result = state.applyingPatch(ops);
+    let missing = state.applyingPatch([
+      {op: 'move', from: '/values/z', path: '/values/z'},
+    ]);
+
+    /// Then
+    expect(result.value!.valuesWithFullPaths()).toEqual(
+      state.valuesWithFullPaths()
+    );
+    expect(missing.isFailure()).toBeTruthy();
+  });
+
+  it('Applying patch with failed operation - should reject whole patch', () => {
+    /// Setup
+    let ops: State.PatchOperation[][] = [
+      [
+        {op: 'replace', path: '/values/h', value: 7},
+        {op: 'test', path: '/substate/a/values/e', value: 4},
+      ],
+      [{op: 'remove', path: '/substate/z'}],
+      [{op: 'replace', path: '/values/z', value: 1}],
+      [{op: 'move', from: '/substate/a', path: '/substate/a/substate/b'}],
+      [{op: 'move', from: '/values/h', path: '/substate/a'}],
+      [{op: 'add', path: '/values', value: {}}],
+      [{op: 'add', path: 'values/h', value: 1}],
+    ];
+
+    /// When & Then
+    ops.forEach(v => {
+      expect(state.applyingPatch(v).isFailure()).toBeTruthy();
+    });
+
+    expect(state.valueAtNode('h').value).toBe(5);
+  });
+
+  it('Creating patch - should turn source state into target state', () => {
+    /// Setup
+    let target = state
+      .updatingValue('a.b.c', 10)
+      .updatingValue('a.b.d', [1, 2])
+      .removingValue('a.e')
+      .removingSubstate('f')
+      .updatingValue('a~/b.c', 6);
+
+    /// When
+    let patch = State.createPatch(state, target);
+    let result = state.applyingPatch(patch);
+
+    /// Then
+    expect(patch).toHaveLength(4);
+    expect(patch).toContainEqual({op: 'remove', path: '/substate/f'});
+    expect(patch).toContainEqual({
+      op: 'add',
+      path: '/substate/a~0~1b',
+      value: {values: {c: 6}, substate: {}},
+    });
+
+    expect(result.value!.flatten()).toEqual(target.flatten());
+  });
+
+  it('Creating patch with Dates, Maps and Sets - should compare contents', () => {
+    /// Setup
+    let source = state
+      .updatingValue('i', new Date(0))
+      .updatingValue('j', new Map([['k', 1]]))
+      .updatingValue('l', new Set([1]));
+
+    let same = source
+      .updatingValue('i', new Date(0))
+      .updatingValue('j', new Map([['k', 1]]))
+      .updatingValue('l', new Set([1]));
+
+    let target = source
+      .updatingValue('i', new Date(1000))
+      .updatingValue('j', new Map([['k', 2]]))
+      .updatingValue('l', new Set([2]));
+
+    /// When
+    let unchanged = State.createPatch(source, same);
+    let patch = State.createPatch(source, target);
+
+    /// Then
+    expect(unchanged).toEqual([]);
+    expect(patch).toHaveLength(3);
+    expect(patch).toContainEqual({
+      op: 'replace',
+      path: '/values/i',
+      value: new Date(1000),
+    });
+
+    expect(source.applyingPatch(patch).value!.flatten()).toEqual(
+      target.flatten()
+    );
+  });
+
+  it('Testing Dates, Maps and Sets - should compare contents', () => {
+    /// Setup
+    let source = state
+      .updatingValue('i', new Date(0))
+      .updatingValue('j', new Map([['k', 1]]))
+      .updatingValue('l', new Set([1]));
+
+    let test = (path: string, value: any) =>
+      source.applyingPatch([{op: 'test', path, value}]).isSuccess();
+
+    /// When & Then
+    expect(test('/values/i', new Date(0))).toBeTruthy();
+    expect(test('/values/i', new Date(1000))).toBeFalsy();
+    expect(test('/values/j', new Map([['k', 1]]))).toBeTruthy();
+    expect(test('/values/j', new Map([['k', 2]]))).toBeFalsy();
+    expect(test('/values/l', new Set([1]))).toBeTruthy();
+    expect(test('/values/l', new Set([2]))).toBeFalsy();
+  });
+});
@@ -0,0 +1,109 @@
+import {State} from './../src';
+
+describe('State paths should be implemented correctly', () => {
+  let state = State.empty<any>()
+    .updatingValue('sites.example\\.com.owner', 'a@x.com')
+    .updatingValue(['sites', 'test.org', 'owner'], 'b@x.com')
+    .updatingValue('sites.plain.owner', 'c@x.com');
+
+  it('Parsing and joining paths - should be consistent', () => {
+    /// Setup
+    let paths = [['a', 'example.com', 'b'], ['a\\b', 'c\\.d', ''], ['a']];
+
+    /// When & Then
+    expect(State.Path.parse('a.example\\.com.b')).toEqual(paths[0]);
+    expect(State.Path.join(paths[0])).toBe('a.example\\.com.b');
+    expect(State.Path.parse('a/b\\/c', '/')).toEqual(['a', 'b/c']);
+    expect(State.Path.parse('a\\b.c')).toEqual(['a\\b', 'c']);
+
+    paths.forEach(v => {
+      expect(State.Path.parse(State.Path.join(v))).toEqual(v);
+      expect(State.Path.parse(State.Path.join(v, '::'), '::')).toEqual(v);
+    });
+  });
+
+  it('Parsing and joining brackets - should be consistent', () => {
+    /// Setup
+    let paths = [['todos', '0', 'title'], ['a[0]', 'b'], ['[1]', 'c\\]']];
+
+    /// When & Then
+    expect(State.Path.parse('todos[0].title')).toEqual(paths[0]);
+    expect(State.Path.parse('[0].id')).toEqual(['0', 'id']);
+    expect(State.Path.parse('a[0][1]')).toEqual(['a', '0', '1']);
+    expect(State.Path.parse('a[x]')).toEqual(['a[x]']);
+    expect(State.Path.join(paths[1])).toBe('a\\[0\\].b');
+
+    paths.forEach(v => {
+      expect(State.Path.parse(State.Path.join(v))).toEqual(v);
+    });
+  });
+
+  it('Accessing keys with brackets - should match Path.parse', () => {
+    /// Setup
+    let bracketed = State.empty<any>()
+      .updatingValue(['a[0]', 'b'], 1)
+      .updatingValue('list[0].id', 2);
+
+    /// When & Then
+    expect(bracketed.valueAtNode(State.Path.join(['a[0]', 'b'])).value).toBe(1);
+    expect(bracketed.valueAtNode('a[0].b').isFailure()).toBeTruthy();
+    expect(bracketed.valueAtNode('list.0.id').value).toBe(2);
+
+    expect(bracketed.valueAtNode('list[0].id').value).toBe(
+      bracketed.valueAtNode(State.Path.parse('list[0].id')).value
+    );
+  });
+
+  it('Accessing keys with separators - should work with both forms', () => {
+    /// Setup & When & Then
+    expect(Object.keys(state.substateAtNode('sites').value!.substate)).toEqual([
+      'example.com',
+      'test.org',
+      'plain',
+    ]);
+
+    expect(state.valueAtNode(['sites', 'example.com', 'owner']).value).toBe(
+      'a@x.com'
+    );
+
+    expect(state.valueAtNode('sites.test\\.org.owner').value).toBe('b@x.com');
+    expect(state.valueAtNode('sites.test.org.owner').isFailure()).toBeTruthy();
+    expect(state.stringAtNode(['sites', 'plain', 'owner']).value).toBe(
+      'c@x.com'
+    );
+    expect(
+      state.substateAtNode(['sites', 'test.org']).isSuccess()
+    ).toBeTruthy();
+  });
+
+  it('Modifying keys with separators - should work with both forms', () => {
+    /// Setup & When
+    let state1 = state
+      .removingValue(['sites', 'example.com', 'owner'])
+      .movingSubstate('sites.test\\.org', ['sites', 'test.net'])
+      .updatingValue(['list'], [{id: 1}])
+      .updatingValue(['list', '0', 'id'], 2);
+
+    /// Then
+    expect(state1.valueAtNode('sites.example\\.com.owner').isFailure()).toBe(
+      true
+    );
+
+    expect(state1.valueAtNode('sites.test\\.net.owner').value).toBe('b@x.com');
+    expect(state1.substateAtNode('sites.test\\.org').isFailure()).toBe(true);
+    expect(state1.valueAtNode('list[0].id').value).toBe(2);
+  });
+
+  it('Producing full paths - should escape keys with separators', () => {
+    /// Setup & When
+    let paths = Object.keys(state.valuesWithFullPaths());
+    let queried = state.query('sites.*.owner');
+    let changes = state.diff(state.removingValue('sites.test\\.org.owner'));
+
+    /// Then
+    expect(paths).toContain('sites.example\\.com.owner');
+    expect(Object.keys(queried)).toEqual(paths);
+    expect(changes.map(v => v.path)).toEqual(['sites.test\\.org.owner']);
+    paths.forEach(v => expect(state.valueAtNode(v).isSuccess()).toBe(true));
+  });
+});
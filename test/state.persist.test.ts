@@ -0,0 +1,175 @@
+import {State} from './../src';
+
+declare function require(name: string): any;
+
+describe('State persistence should be implemented correctly', () => {
+  let fs = require('fs');
+  let os = require('os');
+  let path = require('path');
+
+  let initial = State.empty<any>()
+    .updatingValue('auth.token', 'a')
+    .updatingValue('todos.list', [1, 2])
+    .updatingValue('ui.modal.open', true);
+
+  let delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  let paths = ['auth', 'todos.list'];
+
+  it('Persisting store - should only save selected paths', async () => {
+    /// Setup
+    let storage = new State.MemoryStorage();
+    let adapter = State.webStorageAdapter(storage);
+    let store = State.store(initial);
+    let persistor = State.persist(store, {adapter, key: 'app', paths});
+    await persistor.rehydrated;
+
+    /// When
+    store.update(v => v.updatingValue('ui.modal.open', false));
+    await delay(10);
+    let savedBefore = storage.getItem('app');
+    store.update(v => v.updatingValue('auth.token', 'b'));
+    store.update(v => v.updatingValue('auth.user', 'c'));
+    await delay(10);
+    persistor.stop();
+    store.update(v => v.updatingValue('auth.token', 'd'));
+    await delay(10);
+
+    /// Then
+    let saved = State.deserialize<any>(storage.getItem('app')!).getOrThrow();
+    expect(savedBefore).toBeUndefined();
+    expect(storage.length).toBe(1);
+    expect(saved.valueAtNode('auth.token').value).toBe('b');
+    expect(saved.valueAtNode('auth.user').value).toBe('c');
+    expect(saved.valueAtNode('todos.list').value).toEqual([1, 2]);
+    expect(saved.substateAtNode('ui').isFailure()).toBeTruthy();
+  });
+
+  it('Rehydrating store - should restore selected paths only', async () => {
+    /// Setup
+    let adapter = State.webStorageAdapter();
+    let saved = initial.updatingValue('auth.token', 'b').updatingValue('x', 1);
+    await adapter.setItem('app', State.serialize(saved).getOrThrow());
+    let store = State.store(initial.updatingValue('ui.modal.open', false));
+
+    /// When
+    await State.persist(store, {adapter, key: 'app', paths}).rehydrated;
+
+    /// Then
+    expect(store.state.valueAtNode('auth.token').value).toBe('b');
+    expect(store.state.valueAtNode('ui.modal.open').value).toBe(false);
+    expect(store.state.valueAtNode('x').isFailure()).toBeTruthy();
+  });
+
+  it('Persisting paths inside arrays - should save the whole value', async () => {
+    /// Setup
+    let storage = new State.MemoryStorage();
+    let adapter = State.webStorageAdapter(storage);
+    let store = State.store(initial);
+
+    let persistor = State.persist(store, {
+      adapter,
+      key: 'app',
+      paths: ['todos.list.0'],
+    });
+
+    await persistor.rehydrated;
+
+    /// When
+    await persistor.flush();
+
+    /// Then
+    let saved = State.deserialize<any>(storage.getItem('app')!).getOrThrow();
+    expect(saved.valuesWithFullPaths()).toEqual({'todos.list': [1, 2]});
+  });
+
+  it('Throttling saves - should save changes together', async () => {
+    /// Setup
+    let adapter = State.webStorageAdapter();
+    let setItem = jest.spyOn(adapter, 'setItem');
+    let store = State.store(initial);
+    let options = {adapter, key: 'app', paths, throttleMs: 30};
+    let persistor = State.persist(store, options);
+    await persistor.rehydrated;
+
+    /// When
+    [1, 2, 3].forEach(v => store.update(v1 => v1.updatingValue('auth.n', v)));
+    await delay(60);
+    let savedCount = setItem.mock.calls.length;
+    store.update(v => v.updatingValue('auth.n', 4));
+    await persistor.flush();
+
+    /// Then
+    let json = await adapter.getItem('app');
+    let saved = State.deserialize<any>(json!).getOrThrow();
+    expect(savedCount).toBe(1);
+    expect(setItem).toHaveBeenCalledTimes(2);
+    expect(saved.valueAtNode('auth.n').value).toBe(4);
+    persistor.stop();
+  });
+
+  it('Using file system adapter - should read and write JSON files', async () => {
+    /// Setup
+    let directory = fs.mkdtempSync(path.join(os.tmpdir(), 'state-'));
+    let adapter = State.fileSystemAdapter(fs, directory);
+
+    /// When
+    let missing = await adapter.getItem('a/b');
+    await adapter.setItem('a/b', '{"a":1}');
+    let files = fs.readdirSync(directory);
+    let item = await adapter.getItem('a/b');
+    await adapter.removeItem('a/b');
+    await adapter.removeItem('a/b');
+
+    /// Then
+    expect(missing).toBeUndefined();
+    expect(files).toEqual(['a%2Fb.json']);
+    expect(item).toBe('{"a":1}');
+    expect(fs.readdirSync(directory)).toEqual([]);
+    fs.rmdirSync(directory);
+  });
+
+  it('Using web storage adapter - should read missing items as undefined', async () => {
+    /// Setup
+    let items: {[key: string]: string} = {};
+
+    /// Like localStorage, missing items are null.
+    let adapter = State.webStorageAdapter({
+      getItem: key =>
+        items.hasOwnProperty(key) ? items[key] : JSON.parse('null'),
+      setItem: (key, value) => (items[key] = value),
+      removeItem: key => delete items[key],
+    });
+
+    /// When
+    let missing = await adapter.getItem('app');
+    await adapter.setItem('app', '{}');
+
+    /// Then
+    expect(missing).toBeUndefined();
+    expect(await adapter.getItem('app')).toBe('{}');
+    expect(new State.MemoryStorage().getItem('app')).toBeUndefined();
+  });
+
+  it('Rehydrating malformed data - should reject without overwriting it', async () => {
+    /// Setup
+    let adapter = State.webStorageAdapter();
+    await adapter.setItem('app', '{');
+    let store = State.store(initial);
+    let persistor = State.persist(store, {adapter, key: 'app', paths});
+
+    /// When
+    let error = await persistor.rehydrated.then(() => undefined, e => e);
+    store.update(v => v.updatingValue('auth.token', 'b'));
+    await delay(10);
+    let kept = await adapter.getItem('app');
+    await persistor.flush();
+
+    /// Then
+    let json = await adapter.getItem('app');
+    let saved = State.deserialize<any>(json!).getOrThrow();
+    expect(error.message).toContain('Invalid JSON');
+    expect(kept).toBe('{');
+    expect(saved.valueAtNode('auth.token').value).toBe('b');
+    persistor.stop();
+  });
+});
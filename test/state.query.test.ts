@@ -0,0 +1,72 @@
+import {State} from './../src';
+
+describe('State path queries should be implemented correctly', () => {
+  let state = State.empty<any>()
+    .updatingValue('users.a.profile.email', 'a@x.com')
+    .updatingValue('users.a.profile.name', 'A')
+    .updatingValue('users.b.profile.email', 'b@x.com')
+    .updatingValue('users.b.settings.email', 'b@y.com')
+    .updatingValue('admin.profile.email', 'c@x.com');
+
+  it('Querying with wildcards - should match full paths', () => {
+    /// Setup & When
+    let single = state.query('users.*.profile.email');
+    let partial = state.query('users.a.profile.*ame');
+    let deep = state.query('**.email');
+    let nested = state.query('users.**.profile.email');
+    let none = state.query('users.*.missing.*');
+
+    /// Then
+    expect(single).toEqual({
+      'users.a.profile.email': 'a@x.com',
+      'users.b.profile.email': 'b@x.com',
+    });
+
+    expect(partial).toEqual({'users.a.profile.name': 'A'});
+    expect(Object.keys(deep)).toHaveLength(4);
+    expect(deep['admin.profile.email']).toBe('c@x.com');
+    expect(nested).toEqual(single);
+    expect(none).toEqual({});
+  });
+
+  it('Updating matching values - should modify all matched paths', () => {
+    /// Setup & When
+    let updated = state.updatingMatching('users.*.profile.email', v =>
+      v.map(v1 => v1.toUpperCase())
+    );
+
+    let removed = state.removingMatching('**.email');
+    let unchanged = state.removingMatching('nothing.*');
+
+    /// Then
+    expect(updated.valueAtNode('users.a.profile.email').value).toBe('A@X.COM');
+    expect(updated.valueAtNode('users.b.settings.email').value).toBe('b@y.com');
+    expect(updated.substateAtNode('admin')).toEqual(
+      state.substateAtNode('admin')
+    );
+    expect(removed.query('**.email')).toEqual({});
+    expect(removed.valueAtNode('users.a.profile.name').value).toBe('A');
+    expect(unchanged).toBe(state);
+  });
+
+  it('Querying with trailing double wildcards - should match any depth', () => {
+    /// Setup & When
+    let trailing = state.query('users.b.**');
+    let all = state.query('**');
+    let removed = state.updatingValue('top', 1).removingMatching('users.**');
+
+    /// Then
+    expect(trailing).toEqual({
+      'users.b.profile.email': 'b@x.com',
+      'users.b.settings.email': 'b@y.com',
+    });
+
+    expect(all).toEqual(state.valuesWithFullPaths());
+    expect(Object.keys(all)).toHaveLength(5);
+    expect(State.empty<any>().query('**')).toEqual({});
+    expect(removed.valuesWithFullPaths()).toEqual({
+      top: 1,
+      'admin.profile.email': 'c@x.com',
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {State} from './../src';
+
+describe('State reducer composition should be implemented correctly', () => {
+  type Action = {type: string; value: number};
+
+  let authReducer: State.Reducer<number, Action> = (substate, action) => {
+    return action.type === 'login'
+      ? substate.updatingValue('token', action.value)
+      : substate;
+  };
+
+  let modalReducer: State.Reducer<number, Action> = (substate, action) => {
+    return action.type === 'open'
+      ? substate.updatingValue('visible', action.value)
+      : substate;
+  };
+
+  let reducer = State.combineReducers<number, Action>({
+    auth: authReducer,
+    'ui.modal': modalReducer,
+  });
+
+  let state = State.empty<number>().updatingKeyValues({
+    'auth.token': 0,
+    'ui.theme': 1,
+  });
+
+  it('Reducing with unhandled action - should return same instance', () => {
+    /// Setup & When
+    let newState = reducer(state, {type: 'unknown', value: 1});
+
+    /// Then
+    expect(newState).toBe(state);
+  });
+
+  it('Reducing with handled actions - should update substates', () => {
+    /// Setup & When
+    let state1 = reducer(state, {type: 'login', value: 2});
+    let state2 = reducer(state1, {type: 'open', value: 3});
+
+    /// Then
+    expect(state1.valueAtNode('auth.token').value).toBe(2);
+    expect(state1.substateAtNode('ui').value).toBe(
+      state.substateAtNode('ui').value
+    );
+
+    expect(state2.valueAtNode('ui.modal.visible').value).toBe(3);
+    expect(state2.valueAtNode('ui.theme').value).toBe(1);
+    expect(state2.substateAtNode('auth').value).toBe(
+      state1.substateAtNode('auth').value
+    );
+  });
+});
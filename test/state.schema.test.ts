@@ -0,0 +1,175 @@
+import {State} from './../src';
+
+describe('State schemas should be implemented correctly', () => {
+  let schema = State.schema({
+    values: {version: 'number'},
+    user: {
+      values: {name: 'string', age: ['number', 'undefined'], tags: 'array'},
+      address: {values: {city: v => typeof v === 'string' && v.length > 0}},
+    },
+  });
+
+  let state = State.empty<any>().updatingKeyValues({
+    version: 1,
+    'user.name': 'a',
+    'user.tags': ['x'],
+    'user.address.city': 'b',
+  });
+
+  it('Validating valid states - should return no violations', () => {
+    /// Setup & When & Then
+    expect(schema.validate(state)).toEqual([]);
+    expect(schema.validate(state.updatingValue('user.age', 2))).toEqual([]);
+    expect(schema.validate(state.flatten())).toEqual([]);
+  });
+
+  it('Validating invalid states - should return violations with paths', () => {
+    /// Setup
+    let invalid = state
+      .updatingValue('user.age', '2')
+      .updatingValue('user.address.city', '')
+      .updatingValue('user.extra', true)
+      .updatingValue('other.value', 1)
+      .removingValue('user.name');
+
+    /// When
+    let violations = schema.validate(invalid);
+    let typo = schema.validate({_valuez: {version: 1}, _substate: {}});
+    let lenient = State.schema({}, {allowUnknown: true}).validate(invalid);
+
+    /// Then
+    expect(violations).toEqual(
+      expect.arrayContaining([
+        {path: 'user.age', message: 'Expected number or undefined'},
+        {path: 'user.address.city', message: 'Invalid value'},
+        {path: 'user.extra', message: 'Unexpected value'},
+        {path: 'other.value', message: 'Unexpected value'},
+        {path: 'user.name', message: 'Missing value'},
+      ])
+    );
+
+    expect(violations).toHaveLength(5);
+    expect(typo.map(v => v.path)).toEqual([
+      'version',
+      'user.name',
+      'user.tags',
+      'user.address.city',
+    ]);
+
+    expect(lenient).toEqual([]);
+  });
+
+  it('Strict states - should reject invalid updates', () => {
+    /// Setup
+    let strict = schema.strict(state);
+
+    /// When
+    let updated = strict.updatingValue('user.age', 3);
+    let nested = updated.updatingValue('user.tags.1', 'y');
+
+    /// Then
+    expect(nested.valueAtNode('user.tags').value).toEqual(['x', 'y']);
+    expect(schema.validateValue(['user', 'age'], 'a')).toBe(
+      'Expected number or undefined'
+    );
+    expect(() => updated.updatingValue('user.age', 'a')).toThrow(
+      'Expected number or undefined at user.age'
+    );
+    expect(() => updated.removingValue('user.name')).toThrow(
+      'Missing value at user.name'
+    );
+    expect(() => updated.updatingValue('user.x', 1)).toThrow(
+      'Unexpected value at user.x'
+    );
+    expect(() =>
+      strict.withMutations(v => v.updatingValue('version', 'a'))
+    ).toThrow();
+    expect(() => strict.updatingValue('nmae', 'a')).toThrow(
+      'Unexpected value at nmae'
+    );
+    expect(() => strict.updatingValue('toString', 'a')).toThrow(
+      'Unexpected value at toString'
+    );
+    expect(() => strict.mappingValue('user.nmae', () => 'a')).toThrow(
+      'Unexpected value at user.nmae'
+    );
+    expect(() => strict.mappingValue('version', () => 'a')).toThrow(
+      'Expected number at version'
+    );
+    expect(() =>
+      strict.updatingSubstate('usr', State.empty<any>().updatingValue('a', 1))
+    ).toThrow('Unexpected value at usr.a');
+    expect(() => strict.removingSubstate('user.address')).toThrow(
+      'Invalid value at user.address.city'
+    );
+    expect(
+      strict
+        .mappingValue('version', v => v.map(v1 => v1 + 1))
+        .valueAtNode('version').value
+    ).toBe(2);
+    expect(
+      strict
+        .updatingSubstate(
+          'user.address',
+          state.substateAtNode('user.address').value
+        )
+        .valueAtNode('user.address.city').value
+    ).toBe('b');
+    expect(schema.validateValue('constructor', 1)).toBe('Unexpected value');
+    expect(
+      state.updatingValue('user.age', 'a').valueAtNode('user.age').value
+    ).toBe('a');
+  });
+
+  it('Strict states - should check values that transforms add or remove', () => {
+    /// Setup
+    let strict = schema.strict(state);
+    let other = State.empty<any>().updatingValue('zzz', 1);
+    let root = state.flatten();
+
+    /// When
+    let merged = strict.merging(state.updatingValue('version', 2)).state;
+
+    let patched = strict.applyingPatch([
+      {op: 'replace', path: '', value: root},
+    ]);
+
+    let draft = strict.withMutations(v => {
+      expect(() => v.filteringValues(() => false)).toThrow();
+      v.updatingValue('version', 3);
+    });
+
+    /// Then
+    expect(() => strict.merging(other)).toThrow('Unexpected value at zzz');
+    expect(() => strict.filteringValues(k => k !== 'version')).toThrow(
+      'Missing value at version'
+    );
+    expect(() => strict.renamingSubstate('user.address', 'home')).toThrow(
+      'Unexpected value at user.home.city'
+    );
+    expect(() => strict.flatteningSubstate('user.address')).toThrow(
+      'Unexpected value at user.city'
+    );
+    expect(() => strict.emptying()).toThrow(
+      'Invalid value at user.address.city'
+    );
+    expect(() => strict.mappingKeys(k => k.replace('name', 'nmae'))).toThrow(
+      'Unexpected value at user.nmae'
+    );
+    expect(() => strict.nestingValues('meta')).toThrow(
+      'Unexpected value at meta.version'
+    );
+    expect(
+      strict.applyingPatch([{op: 'remove', path: ''}]).isFailure()
+    ).toBeTruthy();
+
+    expect(strict.filteringValues(() => true)).toBe(strict);
+    expect(merged.valueAtNode('version').value).toBe(2);
+    expect(() => merged.updatingValue('nmae', 'a')).toThrow();
+    expect(patched.value!.flatten()).toEqual(root);
+    expect(() => patched.value!.updatingValue('nmae', 'a')).toThrow();
+    expect(draft.valuesWithFullPaths()).toEqual(
+      state.updatingValue('version', 3).valuesWithFullPaths()
+    );
+  });
+});
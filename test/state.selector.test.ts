@@ -0,0 +1,76 @@
+import {State} from './../src';
+
+describe('State selectors should be implemented correctly', () => {
+  let state = State.empty<number>().updatingKeyValues({
+    'a.b': 1,
+    'a.c.d': 2,
+    e: 3,
+  });
+
+  it('Selecting unchanged inputs - should not recompute', () => {
+    /// Setup
+    let computeCount = 0;
+
+    let selector = State.createSelector(
+      ['a.b', 'a.c'],
+      (b: number, c: State.Type<number>) => {
+        computeCount += 1;
+        return b + c.valueAtNode('d').getOrElse(0);
+      }
+    );
+
+    /// When
+    let result1 = selector(state);
+    let result2 = selector(state.updatingValue('e', 4));
+    let result3 = selector(state.updatingValue('a.c.d', 5));
+
+    /// Then
+    expect(result1).toBe(3);
+    expect(result2).toBe(3);
+    expect(result3).toBe(6);
+    expect(computeCount).toBe(2);
+  });
+
+  it('Composing selectors - should use cache of each selector', () => {
+    /// Setup
+    let computeCount = 0;
+    let sumSelector = State.createSelector(['a.b', 'e'], (b, e) => b + e);
+
+    let doubleSelector = State.createSelector([sumSelector], sum => {
+      computeCount += 1;
+      return sum * 2;
+    });
+
+    /// When
+    let result1 = doubleSelector(state);
+    let result2 = doubleSelector(state.updatingValue('a.c.d', 10));
+    let result3 = doubleSelector(state.updatingValue('e', 4));
+
+    /// Then
+    expect(result1).toBe(8);
+    expect(result2).toBe(8);
+    expect(result3).toBe(10);
+    expect(computeCount).toBe(2);
+  });
+
+  it('Selecting with cache size - should keep multiple results', () => {
+    /// Setup
+    let computeCount = 0;
+    let state2 = state.updatingValue('e', 10);
+
+    let selector = State.createSelector(
+      ['e'],
+      e => {
+        computeCount += 1;
+        return e;
+      },
+      {cacheSize: 2}
+    );
+
+    /// When
+    [state, state2, state, state2].forEach(v => selector(v));
+
+    /// Then
+    expect(computeCount).toBe(2);
+  });
+});
@@ -0,0 +1,98 @@
+import {State} from './../src';
+
+describe('State serialization should be implemented correctly', () => {
+  class Point {
+    constructor(public x: number, public y: number) {}
+
+    public length(): number {
+      return Math.sqrt(this.x * this.x + this.y * this.y);
+    }
+  }
+
+  let revivers = [{tag: 'Point', ctor: Point}];
+
+  let state = State.empty<any>('/')
+    .updatingValue('a/date', new Date(1000))
+    .updatingValue('a/map', new Map([['k', new Set([1, 2])]]))
+    .updatingValue('a/b/point', new Point(3, 4))
+    .updatingValue('a/b/list', [{$type: 'fake', value: 1}, Infinity])
+    .updatingValue('c', 'text');
+
+  it('Round trip - should revive tagged values and separator', () => {
+    /// Setup & When
+    let json = State.serialize(state, {revivers}).getOrThrow();
+    let result = State.deserialize<any>(json, {revivers}).getOrThrow();
+
+    /// Then
+    expect(JSON.parse(json).version).toBe(State.formatVersion);
+    expect(result.substateSeparator).toBe('/');
+    expect(result.substateAtNode('a/b').value!.substateSeparator).toBe('/');
+    expect(result.valueAtNode('a/date').value).toEqual(new Date(1000));
+    expect(
+      result
+        .valueAtNode('a/map')
+        .value.get('k')
+        .has(2)
+    ).toBeTruthy();
+    expect(result.instanceAtNode(Point, 'a/b/point').value!.length()).toBe(5);
+    expect(result.valueAtNode('a/b/list').value).toEqual([
+      {$type: 'fake', value: 1},
+      Infinity,
+    ]);
+
+    expect(result.stringAtNode('c').value).toBe('text');
+  });
+
+  it('Serializing unknown classes - should fail with path', () => {
+    /// Setup & When
+    let result = State.serialize(state);
+
+    /// Then
+    expect(result.isFailure()).toBeTruthy();
+    expect(result.error!.message).toBe(
+      'No reviver registered for Point at a/b/point'
+    );
+  });
+
+  it('Deserializing malformed input - should fail with clear errors', () => {
+    /// Setup
+    let json = State.serialize(state, {revivers}).getOrThrow();
+    let document = JSON.parse(json);
+    let header = {version: 1, separator: '.'};
+
+    let inputs: [string, string][] = [
+      ['{', 'Invalid JSON'],
+      ['[]', 'Invalid document, expected an object'],
+      [JSON.stringify({separator: '.'}), 'Missing format version'],
+      [
+        JSON.stringify(Object.assign({}, document, {version: 2})),
+        'Unsupported format version 2, expected at most 1',
+      ],
+      [
+        JSON.stringify(Object.assign({}, header, {state: {values: {}}})),
+        'Invalid substates, expected an object at root',
+      ],
+      [
+        JSON.stringify(
+          Object.assign({}, header, {
+            state: {
+              values: {},
+              substate: {
+                a: {values: {d: {$type: 'Date', value: 'x'}}, substate: {}},
+              },
+            },
+          })
+        ),
+        'Invalid date "x" at a.d',
+      ],
+      [json, 'No reviver registered for type Point at a/b/point'],
+    ];
+
+    /// When & Then
+    inputs.forEach(([input, message]) => {
+      let result = State.deserialize(input);
+      expect(result.isFailure()).toBeTruthy();
+      expect(result.error!.message).toContain(message);
+    });
+  });
+});
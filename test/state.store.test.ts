@@ -0,0 +1,55 @@
+import {State} from './../src';
+
+describe('State store should be implemented correctly', () => {
+  let initial = State.empty<number>().updatingKeyValues({
+    'cart.items.a': 1,
+    'cart.items.b': 2,
+    'cart.total': 3,
+    'user.age': 4,
+  });
+
+  it('Updating store - should only notify listeners of changed paths', () => {
+    /// Setup
+    let store = State.store(initial);
+    let itemChanges: State.PathChange<number>[] = [];
+    let totalChanges: State.PathChange<number>[] = [];
+    let userChanges: State.PathChange<number>[] = [];
+    store.subscribe('cart.items', v => itemChanges.push(v));
+    store.subscribe('cart.total', v => totalChanges.push(v));
+    store.subscribe('user', v => userChanges.push(v));
+
+    /// When
+    store.update(v => v.updatingValue('cart.items.c', 5));
+    store.update(v => v.updatingValue('cart.total', 8));
+    store.update(v => v.updatingValue('cart.total', 8));
+    store.update(v => v.updatingValue('user.age', 4));
+
+    /// Then
+    expect(itemChanges).toHaveLength(1);
+    expect(
+      itemChanges[0].oldSubstate.value!.valueAtNode('c').isFailure()
+    ).toBeTruthy();
+    expect(itemChanges[0].newSubstate.value!.valueAtNode('c').value).toBe(5);
+    expect(totalChanges).toHaveLength(1);
+    expect(totalChanges[0].oldValue.value).toBe(3);
+    expect(totalChanges[0].newValue.value).toBe(8);
+    expect(userChanges).toHaveLength(0);
+    expect(store.state.valueAtNode('cart.total').value).toBe(8);
+  });
+
+  it('Unsubscribing - should stop notifications', () => {
+    /// Setup
+    let store = State.store(initial);
+    let changes: State.PathChange<number>[] = [];
+    let unsubscribe = store.subscribe('cart.total', v => changes.push(v));
+
+    /// When
+    store.update(v => v.updatingValue('cart.total', 10));
+    unsubscribe();
+    store.update(v => v.removingValue('cart.total'));
+
+    /// Then
+    expect(changes).toHaveLength(1);
+    expect(store.state.valueAtNode('cart.total').isFailure()).toBeTruthy();
+  });
+});
@@ -0,0 +1,108 @@
+import {State} from './../src';
+
+describe('State transforms should be implemented correctly', () => {
+  let state = State.empty<any>().updatingKeyValues({
+    id: 1,
+    name: 'a',
+    'data.user.email': 'b',
+    'data.user.address.city': 'c',
+    'data.meta.page': 2,
+    'ui.modal': true,
+  });
+
+  it('Mapping keys - should move values to new full paths', () => {
+    /// Setup & When
+    let mapped = state.mappingKeys(v => v.replace(/^data\./, 'server.'));
+
+    /// Then
+    expect(mapped.valuesWithFullPaths()).toEqual({
+      id: 1,
+      name: 'a',
+      'server.user.email': 'b',
+      'server.user.address.city': 'c',
+      'server.meta.page': 2,
+      'ui.modal': true,
+    });
+
+    expect(mapped.substateAtNode('data').isFailure()).toBe(true);
+    expect(state.mappingKeys(v => v)).toBe(state);
+    expect(state.valueAtNode('data.user.email').value).toBe('b');
+
+    expect(() =>
+      state.mappingKeys(v => (v === 'id' || v === 'name' ? 'x' : v))
+    ).toThrow('Conflicting keys at x');
+  });
+
+  it('Mapping keys on a draft - should update the draft in place', () => {
+    /// Setup & When
+    let updated = state.withMutations(draft => {
+      draft.mappingKeys(v => v.replace(/^data\./, 'server.'));
+      draft.updatingValue('server.meta.size', 3);
+    });
+
+    /// Then
+    expect(updated.valuesWithFullPaths()).toEqual({
+      id: 1,
+      name: 'a',
+      'server.user.email': 'b',
+      'server.user.address.city': 'c',
+      'server.meta.page': 2,
+      'server.meta.size': 3,
+      'ui.modal': true,
+    });
+
+    expect(state.valueAtNode('data.user.email').value).toBe('b');
+  });
+
+  it('Renaming substates - should keep position and content', () => {
+    /// Setup & When
+    let renamed = state.renamingSubstate('data.user', 'profile');
+
+    /// Then
+    expect(Object.keys(renamed.substateAtNode('data').value!.substate)).toEqual(
+      ['profile', 'meta']
+    );
+    expect(renamed.substateAtNode('data.profile').value).toBe(
+      state.substateAtNode('data.user').value
+    );
+    expect(renamed.substateAtNode('data.user').isFailure()).toBe(true);
+    expect(state.renamingSubstate('data.missing', 'x')).toBe(state);
+
+    expect(() => state.renamingSubstate('data.user', 'meta')).toThrow(
+      'Conflicting keys at data.meta'
+    );
+  });
+
+  it('Flattening substates - should hoist children into parent', () => {
+    /// Setup & When
+    let flattened = state.flatteningSubstate('data');
+    let nested = flattened.flatteningSubstate(['user']);
+
+    /// Then
+    expect(Object.keys(flattened.substate)).toEqual(['user', 'meta', 'ui']);
+    expect(flattened.valueAtNode('meta.page').value).toBe(2);
+    expect(nested.valueAtNode('email').value).toBe('b');
+    expect(nested.valueAtNode('address.city').value).toBe('c');
+    expect(state.flatteningSubstate('missing')).toBe(state);
+
+    expect(() =>
+      state.updatingValue('data.name', 'x').flatteningSubstate('data')
+    ).toThrow('Conflicting keys at name');
+  });
+
+  it('Nesting values - should move values into substate', () => {
+    /// Setup & When
+    let nested = state.nestingValues('data.user');
+
+    /// Then
+    expect(nested.values).toEqual({});
+    expect(nested.valueAtNode('data.user.id').value).toBe(1);
+    expect(nested.valueAtNode('data.user.email').value).toBe('b');
+    expect(nested.valueAtNode('ui.modal').value).toBe(true);
+    expect(nested.nestingValues('x')).toBe(nested);
+
+    expect(() =>
+      state.updatingValue('data.user.id', 2).nestingValues('data.user')
+    ).toThrow('Conflicting keys at data.user.id');
+  });
+});
@@ -0,0 +1,134 @@
+import * as ts from 'typescript';
+import {State} from './../src';
+
+type Schema = {
+  user: {name: string; address?: {city: string}};
+  cart: {total: number; items: string[]};
+};
+
+/**
+ * Compile some sources that use a typed view of the schema above, each as a
+ * separate file next to this one, and collect their error messages.
+ * @param {string[]} sources The sources to compile.
+ * @returns {string[][]} The error messages for each source.
+ */
+function compile(sources: string[]): string[][] {
+  let root = ts.sys.getCurrentDirectory();
+  let config = ts.readConfigFile(`${root}/tsconfig.json`, f =>
+    ts.sys.readFile(f)
+  );
+
+  let {options} = ts.parseJsonConfigFileContent(config.config, ts.sys, root);
+  let header = `
+    import {State} from './../src';
+    declare let state: State.Typed<{
+      user: {name: string; address?: {city: string}};
+      cart: {total: number; items: string[]};
+    }>;
+  `;
+
+  let files = sources.map((v, i) => [
+    `${root}/test/typed.fixture${i}.ts`,
+    `${header}\n${v}\n`,
+  ]);
+
+  let host = ts.createCompilerHost(options);
+  let getSourceFile = host.getSourceFile;
+
+  host.getSourceFile = (name, version) => {
+    let file = files.filter(v => v[0] === name)[0];
+
+    return file !== undefined
+      ? ts.createSourceFile(name, file[1], version)
+      : getSourceFile.call(host, name, version);
+  };
+
+  let program = ts.createProgram(files.map(v => v[0]), options, host);
+
+  return files.map(([name]) =>
+    ts
+      .getPreEmitDiagnostics(program, program.getSourceFile(name))
+      .map(v => ts.flattenDiagnosticMessageText(v.messageText, '\n'))
+  );
+}
+
+describe('Typed states should be implemented correctly', () => {
+  let state = State.typed<Schema>(
+    State.empty<any>().updatingKeyValues({
+      'user.name': 'a',
+      'cart.total': 1,
+      'cart.items': ['x'],
+    })
+  );
+
+  it('Accessing typed paths - should read and update values', () => {
+    /// Setup & When
+    let name: string = state.valueAtNode(['user', 'name']).value!;
+    let user = state.substateAtNode(['user']).value!;
+
+    let updated = state
+      .updatingValue(['user', 'address', 'city'], 'b')
+      .mappingValue(['cart', 'items'], v => v.map(v1 => v1.concat(['y'])));
+
+    /// Then
+    expect(name).toBe('a');
+    expect(user.valueAtNode(['name']).value).toBe('a');
+    expect(state.valueAtNode(['user', 'address', 'city']).isFailure()).toBe(
+      true
+    );
+
+    expect(updated.valuesWithFullPaths()).toEqual({
+      'user.name': 'a',
+      'user.address.city': 'b',
+      'cart.total': 1,
+      'cart.items': ['x', 'y'],
+    });
+  });
+
+  it(
+    'Compiling typed paths - should reject wrong keys, values and substates',
+    () => {
+      /// Setup
+      let valid = `
+        export let name: string = state.valueAtNode(['user', 'name']).value!;
+        export let city: string | undefined = state
+          .valueAtNode(['user', 'address', 'city'])
+          .getOrElse(undefined);
+        export let total: number = state
+          .substateAtNode(['cart']).value!
+          .valueAtNode(['total']).value!;
+        export let items: string[] = state
+          .valueAtNode(['cart', 'items']).value!;
+        export let address: State.Typed<{city: string}> = state
+          .substateAtNode(['user', 'address']).value!;
+        export let updated: State.Typed<any> = state
+          .updatingValue(['cart', 'total'], 2)
+          .mappingValue(['user', 'name'], v => v.map(v1 => v1 + '!'));
+      `;
+
+      let invalid = [
+        `state.valueAtNode(['user', 'nmae']);`,
+        `state.substateAtNode(['usr']);`,
+        `state.valueAtNode(['cart', 'items', 'length']);`,
+        `state.valueAtNode('user.name');`,
+        `state.updatingValue(['cart', 'total'], 'x');`,
+        `state.mappingValue(['user', 'name'], v => v.map(v1 => v1.length));`,
+        `export let total: string = state.valueAtNode(['cart', 'total']).value!;`,
+        `state.substateAtNode(['user']).value!.valueAtNode(['total']);`,
+        `state.valueAtNode(['user']);`,
+        `state.updatingValue(['user'], {name: 'a'});`,
+        `state.mappingValue(['user', 'address'], v => v);`,
+        `state.substateAtNode(['user', 'name']);`,
+        `state.substateAtNode(['cart', 'items']);`,
+      ];
+
+      /// When
+      let [errors, ...invalidErrors] = compile([valid, ...invalid]);
+
+      /// Then
+      expect(errors).toEqual([]);
+      invalidErrors.forEach(v => expect(v.length).toBeGreaterThan(0));
+    },
+    60000
+  );
+});